@@ -5,86 +5,183 @@ import React, {
   useState,
   useCallback,
 } from 'react';
-import axios, { AxiosError, AxiosResponse } from 'axios';
 import './App.css';
 import { IgniteLogo } from './components/IgniteLogo';
-import { VideoBrowser } from './components/VideoBrowser';
-
-// Vimeo API rate limiting configuration
-const VIMEO_MAX_RETRIES = 3;
-const VIMEO_INITIAL_RETRY_DELAY_MS = 2000;
-
-// Helper to delay execution
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+import { QueueableVideo, VideoBrowser } from './components/VideoBrowser';
+import { ThumbnailBackfill } from './components/ThumbnailBackfill';
+import { OrphanedVideos } from './components/OrphanedVideos';
+import { OrphanedVideo } from './lib/orphans';
+import { CategoryMappingEditor } from './components/CategoryMappingEditor';
+import { CsvQueueImport } from './components/CsvQueueImport';
+import { CsvQueueRow } from './lib/csvQueue';
+import {
+  MigrationPlan,
+  PlanProgress,
+  PlanRow,
+} from './components/MigrationPlan';
+import { deleteChunks, loadChunks, saveChunk } from './lib/chunkStore';
+import { flushQueue, loadQueue, saveQueue } from './lib/queueStore';
+import {
+  QueueChannel,
+  QueueState,
+  TabRole,
+  claimLeadership,
+  createQueueChannel,
+} from './lib/tabSync';
+import {
+  DEFAULT_RENDITION_POLICY,
+  RenditionMode,
+  RenditionPolicy,
+  describeRendition,
+  noRenditionMessage,
+  rankRenditions,
+} from './lib/renditions';
+import {
+  CategoryMapping,
+  VimeoFolderInfo,
+  mergeFoldersIntoMappings,
+} from './lib/folders';
+import { igniteAdminUrl } from './lib/igniteLookup';
+import { ResyncField, RESYNC_FIELD_LABELS } from './lib/resync';
+import { parseVimeoId } from './lib/vimeoId';
+import { VimeoTextTrack } from './lib/vimeoApi';
+import { IgniteVisibility } from './lib/igniteApi';
+import { DEFAULT_SERVER_URL, toRelayUrl } from './lib/relay';
+import { fetchServerImport, startServerImport } from './lib/serverImport';
+import {
+  ChunkStore,
+  DEFAULT_METADATA_FIELDS,
+  DEFAULT_VISIBILITY_RULES,
+  ExistingMode,
+  FINAL_STAGES,
+  ImportItem,
+  ImportStage,
+  MetadataFields,
+  VisibilityOption,
+  VisibilityRules,
+  buildCreatePayload,
+  createImportEngine,
+  createImportItem,
+  extractAxiosError,
+  formatBytes,
+  probeCors,
+  resolveImportSettings,
+} from './lib/importEngine';
 
 // Types
-type ActiveTab = 'importer' | 'browser';
-
-type ImportStage =
-  | 'pending' // Added to queue but not started
-  | 'checking'
-  | 'fetching_vimeo'
-  | 'downloading'
-  | 'creating_video'
-  | 'uploading'
-  | 'uploading_thumbnail'
-  | 'polling'
-  | 'complete'
-  | 'error';
+type ActiveTab = 'importer' | 'browser' | 'categories' | 'maintenance';
 
 type CorsTestResult = 'untested' | 'testing' | 'success' | 'failure' | 'error';
 
-interface VimeoVideoData {
-  name: string;
-  description: string;
-  duration: number;
-  width: number;
-  height: number;
-  download?: Array<{
-    quality: string;
-    type: string;
-    width: number;
-    height: number;
-    size: number;
-    link: string;
-    public_name: string;
-    rendition: string;
-  }>;
-  pictures?: {
-    active: boolean;
-    type: string;
-    base_link: string;
-    sizes: Array<{ width: number; height: number; link: string }>;
-  };
-}
-
-interface ImportItem {
-  id: string;
-  vimeoId: string;
-  stage: ImportStage;
-  progress: number;
-  statusText: string;
-  vimeoData: VimeoVideoData | null;
-  igniteVideoId: string | null;
-  thumbnailUrl: string | null;
-  pendingThumbnailUrl: string | null; // Vimeo thumbnail URL to upload after encoding
-  errorMessage: string | null;
-  // Snapshot of options at import time
-  options: {
-    visibility: 'private' | 'public';
-    language: string;
-    autoTranscribe: boolean;
-    tags: string;
-    categoryId: string;
-  };
-}
+// Vimeo privacy.view values. The default mapping (DEFAULT_VISIBILITY_RULES)
+// only keeps fully public videos public.
+const VIMEO_PRIVACY_VIEWS: Array<{ value: string; label: string }> = [
+  { value: 'anybody', label: 'Anyone (public)' },
+  { value: 'unlisted', label: 'Unlisted' },
+  { value: 'password', label: 'Password protected' },
+  { value: 'disable', label: 'Hide from Vimeo' },
+  { value: 'nobody', label: 'Only me (private)' },
+  { value: 'contacts', label: 'My contacts' },
+  { value: 'users', label: 'Vimeo members' },
+];
+
+const METADATA_FIELD_LABELS: Record<keyof MetadataFields, string> = {
+  vimeoTags: 'Vimeo tags',
+  createdTime: 'Creation date',
+  link: 'Vimeo link',
+  folderPath: 'Folder path',
+  dimensions: 'Width/height',
+  duration: 'Duration',
+};
 
 const DEFAULT_API_BASE = 'https://app.ignitevideo.cloud/api';
-const STORAGE_KEY_IMPORTS = 'vimeo_import_queue';
+
+// Queue items rendered at first; more are shown on request
+const QUEUE_PAGE_SIZE = 100;
+
+// How often server-side import jobs are checked
+const SERVER_JOB_POLL_MS = 2000;
 
 // Stages that can be resumed or are final
-const RESUMABLE_STAGES: ImportStage[] = ['polling'];
-const FINAL_STAGES: ImportStage[] = ['complete', 'error'];
+const RESUMABLE_STAGES: ImportStage[] = ['polling', 'reviewing'];
+
+// Stages that occupy a queue slot. Once an item reaches 'polling' the
+// transfer is done and the slot is handed to the next pending item.
+const IN_FLIGHT_STAGES: ImportStage[] = [
+  'checking',
+  'fetching_vimeo',
+  'downloading',
+  'creating_video',
+  'uploading',
+  'uploading_text_tracks',
+  'updating',
+];
+
+// Queue concurrency limits
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 10;
+
+// Bring a saved item up to date: fill in fields older versions lack and
+// mark imports that a reload cut off
+const restoreStoredImport = (stored: ImportItem): ImportItem => {
+  // Items saved before download resume existed lack these fields
+  const item: ImportItem = {
+    ...stored,
+    downloadOffset: stored.downloadOffset || 0,
+    downloadSize: stored.downloadSize || null,
+    selectedRendition: stored.selectedRendition || null,
+    renditionReason: stored.renditionReason || null,
+    contentHash: stored.contentHash || null,
+    importedTextTracks: stored.importedTextTracks || [],
+    folder: stored.folder || null,
+    appliedCategory: stored.appliedCategory || null,
+    appliedVisibility: stored.appliedVisibility || null,
+    resync: stored.resync || null,
+    failedStage: stored.failedStage || null,
+    serverJobId: stored.serverJobId || null,
+    options: {
+      ...stored.options,
+      renditionPolicy:
+        stored.options.renditionPolicy || DEFAULT_RENDITION_POLICY,
+      importTextTracks: stored.options.importTextTracks ?? false,
+      useCategoryMapping: stored.options.useCategoryMapping ?? false,
+      metadataFields: stored.options.metadataFields || DEFAULT_METADATA_FIELDS,
+      visibilityRules:
+        stored.options.visibilityRules || DEFAULT_VISIBILITY_RULES,
+      titleOverride: stored.options.titleOverride || '',
+      descriptionOverride: stored.options.descriptionOverride || '',
+      existingMode: stored.options.existingMode || 'skip',
+      verifyContentHash: stored.options.verifyContentHash ?? false,
+    },
+  };
+  if (
+    item.stage === 'pending' ||
+    FINAL_STAGES.includes(item.stage) ||
+    RESUMABLE_STAGES.includes(item.stage) ||
+    // Still running on the local server, polling resumes in the app
+    item.serverJobId
+  ) {
+    return item;
+  }
+  // Download was interrupted before the Ignite video was created -
+  // requeue it so it continues from the last saved chunk
+  if (item.downloadOffset > 0 && !item.igniteVideoId) {
+    return {
+      ...item,
+      stage: 'pending' as ImportStage,
+      progress: 0,
+      statusText: 'Interrupted',
+    };
+  }
+  // Import was interrupted mid-process
+  return {
+    ...item,
+    stage: 'error' as ImportStage,
+    errorMessage: 'Import was interrupted. Please try again.',
+    statusText: 'Interrupted',
+    failedStage: item.stage,
+  };
+};
 
 function App() {
   // Tab navigation
@@ -95,19 +192,54 @@ function App() {
   const [igniteToken, setIgniteToken] = useState<string>('');
   const [apiBase, setApiBase] = useState<string>(DEFAULT_API_BASE);
 
+  // Local server: download relay for Vimeo links without CORS headers, or
+  // whole imports run server-side
+  const [useRelay, setUseRelay] = useState<boolean>(false);
+  const [useServerImport, setUseServerImport] = useState<boolean>(false);
+  const [serverUrl, setServerUrl] = useState<string>(DEFAULT_SERVER_URL);
+
   // Video input
   const [vimeoId, setVimeoId] = useState<string>('');
 
   // Options
-  const [visibility, setVisibility] = useState<'private' | 'public'>('private');
+  const [visibility, setVisibility] = useState<VisibilityOption>('private');
+  const [visibilityRules, setVisibilityRules] = useState<VisibilityRules>(
+    DEFAULT_VISIBILITY_RULES
+  );
   const [language, setLanguage] = useState<string>('');
   const [autoTranscribe, setAutoTranscribe] = useState<boolean>(false);
+  const [importTextTracks, setImportTextTracks] = useState<boolean>(true);
+  const [verifyContentHash, setVerifyContentHash] = useState<boolean>(false);
   const [tags, setTags] = useState<string>('');
   const [categoryId, setCategoryId] = useState<string>('');
+  const [useCategoryMapping, setUseCategoryMapping] = useState<boolean>(false);
+  const [metadataFields, setMetadataFields] = useState<MetadataFields>(
+    DEFAULT_METADATA_FIELDS
+  );
+  const [categoryMappings, setCategoryMappings] = useState<CategoryMapping[]>(
+    []
+  );
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [existingMode, setExistingMode] = useState<ExistingMode>('skip');
+  const [renditionPolicy, setRenditionPolicy] = useState<RenditionPolicy>(
+    DEFAULT_RENDITION_POLICY
+  );
 
   // Import queue
   const [imports, setImports] = useState<ImportItem[]>([]);
+  const [queueState, setQueueState] = useState<QueueState>('idle');
   const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [queueLoaded, setQueueLoaded] = useState(false);
+  // Only the leader tab runs imports; other tabs mirror its queue
+  const [tabRole, setTabRole] = useState<TabRole>('pending');
+  const isLeader = tabRole === 'leader';
+  // Long queues are rendered in pages
+  const [queueVisibleCount, setQueueVisibleCount] =
+    useState<number>(QUEUE_PAGE_SIZE);
+
+  // Dry run / migration plan
+  const [planRows, setPlanRows] = useState<PlanRow[]>([]);
+  const [planProgress, setPlanProgress] = useState<PlanProgress | null>(null);
 
   // CORS test
   const [corsResult, setCorsResult] = useState<CorsTestResult>('untested');
@@ -122,7 +254,57 @@ function App() {
     importsRef.current = imports;
   }, [imports]);
 
-  // Load saved tokens and imports from localStorage
+  // Ref to the latest folder mappings, read when an import resolves its category
+  const categoryMappingsRef = useRef<CategoryMapping[]>(categoryMappings);
+  useEffect(() => {
+    categoryMappingsRef.current = categoryMappings;
+  }, [categoryMappings]);
+
+  const queueStateRef = useRef<QueueState>('idle');
+  useEffect(() => {
+    queueStateRef.current = queueState;
+  }, [queueState]);
+
+  // Elect the leader tab. The leader loads the saved queue (IndexedDB; the
+  // old localStorage queue is moved there on first load) and sends it to
+  // the other tabs, which ask for it when they open.
+  const queueChannelRef = useRef<QueueChannel | null>(null);
+  useEffect(() => {
+    const channel = createQueueChannel({
+      onHello: () =>
+        queueChannelRef.current?.syncFull(
+          importsRef.current,
+          queueStateRef.current
+        ),
+      onSync: (update, leaderQueueState) => {
+        setImports(update);
+        setQueueState(leaderQueueState);
+      },
+    });
+    queueChannelRef.current = channel;
+
+    const release = claimLeadership((role) => {
+      setTabRole(role);
+      if (role === 'follower') {
+        channel.hello();
+        return;
+      }
+      // Became leader, possibly after the previous leader tab closed
+      setQueueState('idle');
+      loadQueue()
+        .then((stored) => setImports(stored.map(restoreStoredImport)))
+        .catch((e) => console.warn('Failed to load stored imports:', e))
+        .finally(() => setQueueLoaded(true));
+    });
+
+    return () => {
+      release();
+      channel.close();
+      queueChannelRef.current = null;
+    };
+  }, []);
+
+  // Load saved tokens and settings from localStorage
   useEffect(() => {
     const storedVimeoToken = localStorage.getItem('vimeo_token');
     if (storedVimeoToken) setVimeoToken(storedVimeoToken);
@@ -133,12 +315,43 @@ function App() {
     const storedApiBase = localStorage.getItem('ignite_api_base');
     if (storedApiBase) setApiBase(storedApiBase);
 
+    const storedUseRelay = localStorage.getItem('download_use_relay');
+    if (storedUseRelay) setUseRelay(storedUseRelay === 'true');
+
+    const storedUseServerImport = localStorage.getItem('import_on_server');
+    if (storedUseServerImport)
+      setUseServerImport(storedUseServerImport === 'true');
+
+    // Saved as the relay URL before server-side imports existed
+    const storedServerUrl =
+      localStorage.getItem('local_server_url') ||
+      localStorage.getItem('download_relay_url');
+    if (storedServerUrl) setServerUrl(storedServerUrl);
+
     // Load saved options
     const storedVisibility = localStorage.getItem('import_visibility');
-    if (storedVisibility === 'public' || storedVisibility === 'private') {
+    if (
+      storedVisibility === 'public' ||
+      storedVisibility === 'private' ||
+      storedVisibility === 'inherit'
+    ) {
       setVisibility(storedVisibility);
     }
 
+    const storedVisibilityRules = localStorage.getItem(
+      'import_visibility_rules'
+    );
+    if (storedVisibilityRules) {
+      try {
+        setVisibilityRules({
+          ...DEFAULT_VISIBILITY_RULES,
+          ...JSON.parse(storedVisibilityRules),
+        });
+      } catch (e) {
+        console.warn('Failed to parse stored visibility rules:', e);
+      }
+    }
+
     const storedLanguage = localStorage.getItem('import_language');
     if (storedLanguage) setLanguage(storedLanguage);
 
@@ -146,38 +359,76 @@ function App() {
     if (storedAutoTranscribe)
       setAutoTranscribe(storedAutoTranscribe === 'true');
 
+    const storedImportTextTracks = localStorage.getItem('import_text_tracks');
+    if (storedImportTextTracks)
+      setImportTextTracks(storedImportTextTracks === 'true');
+
+    const storedVerifyContentHash = localStorage.getItem(
+      'import_verify_content_hash'
+    );
+    if (storedVerifyContentHash)
+      setVerifyContentHash(storedVerifyContentHash === 'true');
+
     const storedTags = localStorage.getItem('import_tags');
     if (storedTags) setTags(storedTags);
 
     const storedCategoryId = localStorage.getItem('import_category_id');
     if (storedCategoryId) setCategoryId(storedCategoryId);
 
-    // Load saved imports
-    const storedImports = localStorage.getItem(STORAGE_KEY_IMPORTS);
-    if (storedImports) {
+    const storedUseCategoryMapping = localStorage.getItem(
+      'import_use_category_mapping'
+    );
+    if (storedUseCategoryMapping)
+      setUseCategoryMapping(storedUseCategoryMapping === 'true');
+
+    const storedMetadataFields = localStorage.getItem('import_metadata_fields');
+    if (storedMetadataFields) {
       try {
-        const parsed: ImportItem[] = JSON.parse(storedImports);
-        // Process loaded imports - mark interrupted ones as error
-        const processedImports = parsed.map((item) => {
-          if (
-            FINAL_STAGES.includes(item.stage) ||
-            RESUMABLE_STAGES.includes(item.stage)
-          ) {
-            return item;
-          }
-          // Import was interrupted mid-process
-          return {
-            ...item,
-            stage: 'error' as ImportStage,
-            errorMessage: 'Import was interrupted. Please try again.',
-            statusText: 'Interrupted',
-          };
+        setMetadataFields({
+          ...DEFAULT_METADATA_FIELDS,
+          ...JSON.parse(storedMetadataFields),
+        });
+      } catch (e) {
+        console.warn('Failed to parse stored metadata fields:', e);
+      }
+    }
+
+    const storedCategoryMappings = localStorage.getItem('category_mappings');
+    if (storedCategoryMappings) {
+      try {
+        setCategoryMappings(JSON.parse(storedCategoryMappings));
+      } catch (e) {
+        console.warn('Failed to parse stored category mappings:', e);
+      }
+    }
+
+    const storedExistingMode = localStorage.getItem('import_existing_mode');
+    if (storedExistingMode === 'skip' || storedExistingMode === 'update') {
+      setExistingMode(storedExistingMode);
+    }
+
+    const storedConcurrency = parseInt(
+      localStorage.getItem('import_concurrency') || '',
+      10
+    );
+    if (storedConcurrency >= 1 && storedConcurrency <= MAX_CONCURRENCY) {
+      setConcurrency(storedConcurrency);
+    }
+
+    const storedRenditionPolicy = localStorage.getItem(
+      'import_rendition_policy'
+    );
+    if (storedRenditionPolicy) {
+      try {
+        setRenditionPolicy({
+          ...DEFAULT_RENDITION_POLICY,
+          ...JSON.parse(storedRenditionPolicy),
         });
-        setImports(processedImports);
       } catch (e) {
-        console.warn('Failed to parse stored imports:', e);
+        console.warn('Failed to parse stored rendition policy:', e);
       }
     }
+
     setSettingsLoaded(true);
   }, []);
 
@@ -200,6 +451,24 @@ function App() {
     }
   }, [apiBase, settingsLoaded]);
 
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem('download_use_relay', String(useRelay));
+    }
+  }, [useRelay, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem('import_on_server', String(useServerImport));
+    }
+  }, [useServerImport, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded && serverUrl) {
+      localStorage.setItem('local_server_url', serverUrl);
+    }
+  }, [serverUrl, settingsLoaded]);
+
   // Persist options
   useEffect(() => {
     if (settingsLoaded) {
@@ -207,6 +476,15 @@ function App() {
     }
   }, [visibility, settingsLoaded]);
 
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem(
+        'import_visibility_rules',
+        JSON.stringify(visibilityRules)
+      );
+    }
+  }, [visibilityRules, settingsLoaded]);
+
   useEffect(() => {
     if (settingsLoaded) {
       localStorage.setItem('import_language', language);
@@ -219,6 +497,21 @@ function App() {
     }
   }, [autoTranscribe, settingsLoaded]);
 
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem('import_text_tracks', String(importTextTracks));
+    }
+  }, [importTextTracks, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem(
+        'import_verify_content_hash',
+        String(verifyContentHash)
+      );
+    }
+  }, [verifyContentHash, settingsLoaded]);
+
   useEffect(() => {
     if (settingsLoaded) {
       localStorage.setItem('import_tags', tags);
@@ -231,12 +524,70 @@ function App() {
     }
   }, [categoryId, settingsLoaded]);
 
-  // Persist imports to localStorage whenever they change
   useEffect(() => {
     if (settingsLoaded) {
-      localStorage.setItem(STORAGE_KEY_IMPORTS, JSON.stringify(imports));
+      localStorage.setItem(
+        'import_use_category_mapping',
+        String(useCategoryMapping)
+      );
+    }
+  }, [useCategoryMapping, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem(
+        'import_metadata_fields',
+        JSON.stringify(metadataFields)
+      );
     }
-  }, [imports, settingsLoaded]);
+  }, [metadataFields, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem(
+        'category_mappings',
+        JSON.stringify(categoryMappings)
+      );
+    }
+  }, [categoryMappings, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem('import_concurrency', String(concurrency));
+    }
+  }, [concurrency, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem('import_existing_mode', existingMode);
+    }
+  }, [existingMode, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) {
+      localStorage.setItem(
+        'import_rendition_policy',
+        JSON.stringify(renditionPolicy)
+      );
+    }
+  }, [renditionPolicy, settingsLoaded]);
+
+  // Persist imports whenever they change (changed items only, throttled)
+  // and mirror them to the other tabs
+  useEffect(() => {
+    if (!isLeader || !queueLoaded) return;
+    saveQueue(imports);
+    queueChannelRef.current?.sync(imports, queueState);
+  }, [imports, queueState, isLeader, queueLoaded]);
+
+  // Write pending queue changes before the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushQueue();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
 
   // Cleanup polling on unmount
   useEffect(() => {
@@ -254,7 +605,9 @@ function App() {
       'downloading',
       'creating_video',
       'uploading',
+      'uploading_text_tracks',
       'uploading_thumbnail',
+      'updating',
     ];
     return imports.some((item) => activeStages.includes(item.stage));
   }, [imports]);
@@ -262,7 +615,7 @@ function App() {
   // Warn user before leaving page if transfers are in progress
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (hasActiveTransfers) {
+      if (isLeader && hasActiveTransfers) {
         e.preventDefault();
         // Most modern browsers ignore custom messages and show a generic one
         e.returnValue =
@@ -273,16 +626,17 @@ function App() {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [hasActiveTransfers]);
+  }, [isLeader, hasActiveTransfers]);
 
   const apiBaseSanitized = useMemo(() => apiBase.replace(/\/$/, ''), [apiBase]);
 
   const canImport = useMemo(
     () =>
+      isLeader &&
       vimeoToken.trim().length > 0 &&
       igniteToken.trim().length > 0 &&
       vimeoId.trim().length > 0,
-    [vimeoToken, igniteToken, vimeoId]
+    [isLeader, vimeoToken, igniteToken, vimeoId]
   );
 
   const canTestCors = useMemo(
@@ -303,70 +657,29 @@ function App() {
     []
   );
 
-  // Extract error from axios
-  const extractAxiosError = (error: unknown): string => {
-    const err = error as AxiosError<any>;
-    if (err.response) {
-      const status = err.response.status;
-      const data = err.response.data as any;
-      const msg =
-        (data && (data.message || data.error || JSON.stringify(data))) ||
-        'Request failed';
-      return `${status}: ${msg}`;
-    }
-    if (err.request) {
-      return 'No response from server';
-    }
-    return err.message || 'Unknown error';
-  };
-
-  // Fetch Vimeo video data with rate limit handling
-  const fetchVimeoData = async (videoId: string): Promise<VimeoVideoData> => {
-    const url = `https://api.vimeo.com/videos/${videoId}`;
-    let retries = 0;
-    let retryDelay = VIMEO_INITIAL_RETRY_DELAY_MS;
-
-    while (true) {
-      try {
-        const response: AxiosResponse<VimeoVideoData> = await axios.get(url, {
-          headers: {
-            Authorization: `Bearer ${vimeoToken}`,
-          },
-        });
-        return response.data;
-      } catch (error) {
-        const axiosError = error as AxiosError;
-
-        // Check if it's a rate limit error (429)
-        if (axiosError.response?.status === 429) {
-          retries++;
-          if (retries > VIMEO_MAX_RETRIES) {
-            throw new Error(
-              `Vimeo API rate limit exceeded. Max retries (${VIMEO_MAX_RETRIES}) reached.`
-            );
-          }
+  // Relay downloads go through, null for direct downloads
+  const downloadRelayUrl = useMemo(
+    () => (useRelay && serverUrl.trim() ? serverUrl.trim() : null),
+    [useRelay, serverUrl]
+  );
 
-          // Check for Retry-After header
-          const retryAfter = axiosError.response.headers['retry-after'];
-          const waitTime = retryAfter
-            ? parseInt(retryAfter, 10) * 1000
-            : retryDelay;
-
-          console.log(
-            `Vimeo rate limited. Waiting ${Math.ceil(
-              waitTime / 1000
-            )}s before retry ${retries}/${VIMEO_MAX_RETRIES}...`
-          );
-          await delay(waitTime);
-          retryDelay *= 2; // Exponential backoff
-          continue;
-        }
+  // Import pipeline bound to the current credentials
+  const engine = useMemo(
+    () =>
+      createImportEngine({
+        vimeoToken,
+        igniteToken,
+        apiBase: apiBaseSanitized,
+        downloadRelayUrl,
+      }),
+    [vimeoToken, igniteToken, apiBaseSanitized, downloadRelayUrl]
+  );
 
-        // Re-throw other errors
-        throw error;
-      }
-    }
-  };
+  // IndexedDB chunk storage, so interrupted downloads resume after a reload
+  const chunkStore: ChunkStore = useMemo(
+    () => ({ saveChunk, loadChunks, deleteChunks }),
+    []
+  );
 
   // Test CORS by attempting a small range request on the download URL
   const testCors = async () => {
@@ -374,7 +687,7 @@ function App() {
     setCorsMessage('Testing CORS compatibility...');
 
     try {
-      const vimeoData = await fetchVimeoData(vimeoId.trim());
+      const vimeoData = await engine.fetchVimeoData(vimeoId.trim());
 
       if (!vimeoData.download || vimeoData.download.length === 0) {
         setCorsResult('error');
@@ -388,141 +701,33 @@ function App() {
         current.size < smallest.size ? current : smallest
       );
 
-      try {
-        await axios.head(testDownload.link, {
-          headers: { Range: 'bytes=0-0' },
-        });
+      if ((await probeCors(testDownload.link)) === 'success') {
         setCorsResult('success');
         setCorsMessage('CORS test passed! Client-side downloads should work.');
-      } catch (corsError) {
-        const err = corsError as AxiosError;
-        if (!err.response) {
-          setCorsResult('failure');
-          setCorsMessage(
-            'CORS blocked. Vimeo download URLs do not allow browser access.'
-          );
-        } else {
-          setCorsResult('success');
-          setCorsMessage(
-            'CORS test passed! Client-side downloads should work.'
-          );
-        }
+        return;
       }
-    } catch (error) {
-      setCorsResult('error');
-      setCorsMessage(`Failed to fetch Vimeo data: ${extractAxiosError(error)}`);
-    }
-  };
 
-  // Check if a video with this Vimeo ID already exists in Ignite
-  const checkExistingVimeoImport = async (
-    vimeoVideoId: string
-  ): Promise<{ exists: boolean; videoId?: string; title?: string }> => {
-    try {
-      const queryString = `where[customMetadata.vimeoId][equals]=${encodeURIComponent(
-        vimeoVideoId
-      )}&limit=1`;
-      const url = `${apiBaseSanitized}/videos?${queryString}`;
-
-      const response = await axios.get(url, {
-        headers: { Authorization: `Bearer ${igniteToken}` },
-      });
-
-      const data = response.data;
-      if (data.docs && data.docs.length > 0) {
-        return {
-          exists: true,
-          videoId: data.docs[0].id,
-          title: data.docs[0].title,
-        };
+      // Switch downloads to the local relay and check that it is running
+      setCorsResult('failure');
+      if (!serverUrl.trim()) {
+        setCorsMessage(
+          'CORS blocked. Vimeo download URLs do not allow browser access.'
+        );
+        return;
       }
-      return { exists: false };
+      setUseRelay(true);
+      const relayReachable =
+        (await probeCors(toRelayUrl(serverUrl.trim(), testDownload.link))) ===
+        'success';
+      setCorsMessage(
+        relayReachable
+          ? `CORS blocked. Downloads now go through the local relay at ${serverUrl.trim()}.`
+          : `CORS blocked. Downloads now go through the local relay, but it is not reachable at ${serverUrl.trim()}. Start it with "npm run server".`
+      );
     } catch (error) {
-      console.warn('Failed to check for existing import:', error);
-      return { exists: false };
-    }
-  };
-
-  // Create video in Ignite
-  const createIgniteVideo = async (
-    title: string,
-    description: string | null,
-    vimeoVideoId: string,
-    options: ImportItem['options']
-  ): Promise<{ videoId: string; signedUrl: string }> => {
-    const url = `${apiBaseSanitized}/videos/upload`;
-
-    const payload: any = {
-      title: title.substring(0, 100),
-      visibility: options.visibility,
-      autoTranscribe: options.autoTranscribe,
-      customMetadata: { vimeoId: vimeoVideoId },
-    };
-
-    // Add description if available
-    if (description && description.trim()) {
-      payload.description = description.trim();
-    }
-
-    if (options.language.trim()) {
-      payload.language = options.language.trim();
-    }
-
-    if (options.tags.trim()) {
-      payload.tags = options.tags
-        .split(',')
-        .map((t: string) => t.trim())
-        .filter((t: string) => t);
-    }
-
-    if (options.categoryId.trim()) {
-      payload.categories = [options.categoryId.trim()];
+      setCorsResult('error');
+      setCorsMessage(`Failed to fetch Vimeo data: ${extractAxiosError(error)}`);
     }
-
-    const response = await axios.put(url, payload, {
-      headers: {
-        Authorization: `Bearer ${igniteToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    return response.data;
-  };
-
-  // Upload video to signed URL
-  const uploadToSignedUrl = async (
-    signedUrl: string,
-    videoBlob: Blob,
-    contentType: string,
-    onProgress: (percent: number) => void
-  ) => {
-    await axios.put(signedUrl, videoBlob, {
-      headers: { 'Content-Type': contentType },
-      onUploadProgress: (evt: { loaded: number; total?: number }) => {
-        if (!evt.total) return;
-        const percent = Math.round((evt.loaded / evt.total) * 100);
-        onProgress(percent);
-      },
-      maxContentLength: Infinity,
-      maxBodyLength: Infinity,
-      withCredentials: false,
-    });
-  };
-
-  // Upload thumbnail to Ignite
-  const uploadThumbnail = async (
-    videoId: string,
-    thumbnailBlob: Blob
-  ): Promise<string> => {
-    const url = `${apiBaseSanitized}/videos/${videoId}/thumbnail`;
-    const formData = new FormData();
-    formData.append('file', thumbnailBlob, 'thumbnail.jpg');
-
-    const response = await axios.put(url, formData, {
-      headers: { Authorization: `Bearer ${igniteToken}` },
-    });
-
-    return response.data.customThumbnailUrl || response.data.thumbnailUrl;
   };
 
   // Poll video status for a specific import
@@ -535,96 +740,16 @@ function App() {
       if (existing) window.clearInterval(existing);
 
       const run = async () => {
-        try {
-          const response = await axios.get(
-            `${apiBaseSanitized}/videos/${videoId}`,
-            { headers: { Authorization: `Bearer ${igniteToken}` } }
-          );
-          const data = response.data;
-          const status = (data.status || '').toString().toUpperCase();
-
-          updateImport(importId, (prev) => ({
-            ...prev,
-            statusText: `Processing: ${status}`,
-          }));
-
-          const doneStatuses = ['COMPLETE', 'COMPLETED', 'READY', 'ENCODED'];
-          const errorStatuses = ['FAILED', 'ERROR'];
-
-          if (doneStatuses.includes(status)) {
-            // Stop polling first
-            const t = pollTimersRef.current.get(importId);
-            if (t) window.clearInterval(t);
-            pollTimersRef.current.delete(importId);
-
-            // Check if there's a pending thumbnail to upload
-            // Use ref to get latest state (closure would have stale data)
-            const currentImport = importsRef.current.find(
-              (i) => i.id === importId
-            );
-            if (currentImport?.pendingThumbnailUrl) {
-              updateImport(importId, (prev) => ({
-                ...prev,
-                stage: 'uploading_thumbnail',
-                statusText: 'Uploading thumbnail...',
-                progress: 98,
-              }));
-
-              try {
-                // Fetch thumbnail from Vimeo
-                const thumbResponse = await axios.get(
-                  currentImport.pendingThumbnailUrl,
-                  { responseType: 'blob' }
-                );
-
-                // Upload to Ignite
-                const uploadedThumbUrl = await uploadThumbnail(
-                  videoId,
-                  thumbResponse.data as Blob
-                );
-
-                updateImport(importId, (prev) => ({
-                  ...prev,
-                  stage: 'complete',
-                  statusText: 'Import complete!',
-                  progress: 100,
-                  thumbnailUrl: uploadedThumbUrl,
-                  pendingThumbnailUrl: null,
-                }));
-              } catch (thumbError) {
-                console.warn(
-                  'Thumbnail upload failed after encoding:',
-                  thumbError
-                );
-                // Still mark as complete, just without thumbnail
-                updateImport(importId, (prev) => ({
-                  ...prev,
-                  stage: 'complete',
-                  statusText: 'Complete (thumbnail failed)',
-                  progress: 100,
-                  pendingThumbnailUrl: null,
-                }));
-              }
-            } else {
-              updateImport(importId, (prev) => ({
-                ...prev,
-                stage: 'complete',
-                statusText: 'Import complete!',
-                progress: 100,
-              }));
-            }
-          } else if (errorStatuses.includes(status)) {
-            updateImport(importId, (prev) => ({
-              ...prev,
-              stage: 'error',
-              errorMessage: `Encoding failed: ${status}`,
-            }));
-            const t = pollTimersRef.current.get(importId);
-            if (t) window.clearInterval(t);
-            pollTimersRef.current.delete(importId);
-          }
-        } catch (error) {
-          console.error('Poll error:', error);
+        // Use ref to get latest state (closure would have stale data)
+        const done = await engine.checkEncoding(
+          videoId,
+          () => importsRef.current.find((i) => i.id === importId),
+          (updater) => updateImport(importId, updater)
+        );
+        if (done) {
+          const t = pollTimersRef.current.get(importId);
+          if (t) window.clearInterval(t);
+          pollTimersRef.current.delete(importId);
         }
       };
 
@@ -632,19 +757,21 @@ function App() {
       const timerId = window.setInterval(run, intervalMs);
       pollTimersRef.current.set(importId, timerId);
     },
-    [apiBaseSanitized, igniteToken, updateImport]
+    [engine, updateImport]
   );
 
   // Resume polling for imports that were in 'polling' stage on page load
+  // (or when this tab took over from another)
   const resumedPollingIds = useRef<Set<string>>(new Set());
   useEffect(() => {
-    if (!settingsLoaded || !igniteToken) return;
+    if (!isLeader || !queueLoaded || !settingsLoaded || !igniteToken) return;
 
     // Resume polling for any items in 'polling' stage that we haven't started yet
     imports.forEach((item) => {
       if (
         item.stage === 'polling' &&
         item.igniteVideoId &&
+        !item.serverJobId &&
         !resumedPollingIds.current.has(item.id) &&
         !pollTimersRef.current.has(item.id)
       ) {
@@ -652,169 +779,368 @@ function App() {
         pollVideoStatus(item.id, item.igniteVideoId);
       }
     });
-  }, [settingsLoaded, igniteToken, imports, pollVideoStatus]);
-
-  // Main import function - runs the import process for a single item
-  const runImport = useCallback(
-    async (importItem: ImportItem) => {
-      const { id, vimeoId: itemVimeoId, options } = importItem;
+  }, [
+    isLeader,
+    queueLoaded,
+    settingsLoaded,
+    igniteToken,
+    imports,
+    pollVideoStatus,
+  ]);
+
+  // Mirror a server-side import job into its queue item until the job is
+  // done or waits for review
+  const pollServerJob = useCallback(
+    (importId: string, jobId: string) => {
+      const existing = pollTimersRef.current.get(importId);
+      if (existing) window.clearInterval(existing);
 
-      try {
-        // Step 0: Check for existing import
-        updateImport(id, (prev) => ({
-          ...prev,
-          statusText: 'Checking for existing import...',
-        }));
+      const stop = () => {
+        const t = pollTimersRef.current.get(importId);
+        if (t) window.clearInterval(t);
+        pollTimersRef.current.delete(importId);
+      };
 
-        const existingCheck = await checkExistingVimeoImport(itemVimeoId);
-        if (existingCheck.exists) {
-          throw new Error(
-            `Already imported (ID: ${existingCheck.videoId}, Title: "${existingCheck.title}")`
-          );
+      const run = async () => {
+        try {
+          const job = await fetchServerImport(serverUrl.trim(), jobId);
+          if (!job) {
+            updateImport(importId, (prev) => ({
+              ...prev,
+              stage: 'error',
+              statusText: 'Failed',
+              errorMessage:
+                'Import job not found on the local server (was it restarted?)',
+              failedStage: prev.stage,
+            }));
+            stop();
+            return;
+          }
+          updateImport(importId, (prev) => ({
+            ...job,
+            id: prev.id,
+            serverJobId: jobId,
+          }));
+          if (FINAL_STAGES.includes(job.stage) || job.stage === 'reviewing') {
+            stop();
+          }
+        } catch (error) {
+          // Server briefly unreachable - keep polling
+          console.error('Server job poll error:', error);
         }
+      };
+
+      run();
+      const timerId = window.setInterval(run, SERVER_JOB_POLL_MS);
+      pollTimersRef.current.set(importId, timerId);
+    },
+    [serverUrl, updateImport]
+  );
+
+  // Resume server job polling for items that were running on page load
+  useEffect(() => {
+    if (!isLeader || !queueLoaded || !settingsLoaded) return;
+
+    imports.forEach((item) => {
+      if (
+        item.serverJobId &&
+        item.stage !== 'pending' &&
+        item.stage !== 'reviewing' &&
+        !FINAL_STAGES.includes(item.stage) &&
+        !resumedPollingIds.current.has(item.id) &&
+        !pollTimersRef.current.has(item.id)
+      ) {
+        resumedPollingIds.current.add(item.id);
+        pollServerJob(item.id, item.serverJobId);
+      }
+    });
+  }, [isLeader, queueLoaded, settingsLoaded, imports, pollServerJob]);
 
-        // Step 1: Fetch Vimeo data
+  // Hand an item to the local server, which streams the file from Vimeo to
+  // Ignite; the queue only follows the job
+  const runServerImport = useCallback(
+    async (importItem: ImportItem) => {
+      const { id } = importItem;
+      try {
+        const jobId = await startServerImport(serverUrl.trim(), {
+          vimeoToken,
+          igniteToken,
+          apiBase: apiBaseSanitized,
+          vimeoId: importItem.vimeoId,
+          options: importItem.options,
+          folder: importItem.folder,
+          categoryMappings: categoryMappingsRef.current,
+          igniteVideoId: importItem.igniteVideoId,
+          importedTextTracks: importItem.importedTextTracks,
+        });
         updateImport(id, (prev) => ({
           ...prev,
-          stage: 'fetching_vimeo',
-          statusText: 'Fetching Vimeo data...',
-          progress: 5,
+          serverJobId: jobId,
+          statusText: 'Started on local server...',
         }));
-
-        const vimeoData = await fetchVimeoData(itemVimeoId);
+        pollServerJob(id, jobId);
+      } catch (error) {
         updateImport(id, (prev) => ({
           ...prev,
-          vimeoData,
-          progress: 10,
+          stage: 'error',
+          statusText: 'Failed',
+          errorMessage: `Local server: ${extractAxiosError(error)}`,
+          failedStage: prev.stage,
         }));
+      }
+    },
+    [
+      serverUrl,
+      vimeoToken,
+      igniteToken,
+      apiBaseSanitized,
+      updateImport,
+      pollServerJob,
+    ]
+  );
 
-        // Validate download links
-        if (!vimeoData.download || vimeoData.download.length === 0) {
-          throw new Error('No download links available.');
-        }
+  // Main import function - runs the import process for a single item
+  const runImport = useCallback(
+    async (importItem: ImportItem) => {
+      const { id } = importItem;
+      if (useServerImport) {
+        await runServerImport(importItem);
+        return;
+      }
+      const pollVideoId = await engine.runImport(importItem, {
+        update: (updater) => updateImport(id, updater),
+        categoryMappings: categoryMappingsRef.current,
+        chunkStore,
+      });
 
-        const downloadOptions = vimeoData.download.filter(
-          (d) => d.public_name !== 'source'
-        );
-        if (downloadOptions.length === 0) {
-          throw new Error('No suitable download rendition found.');
-        }
+      if (pollVideoId) {
+        pollVideoStatus(id, pollVideoId);
+        return;
+      }
+      const t = pollTimersRef.current.get(id);
+      if (t) {
+        window.clearInterval(t);
+        pollTimersRef.current.delete(id);
+      }
+    },
+    [
+      engine,
+      chunkStore,
+      useServerImport,
+      updateImport,
+      pollVideoStatus,
+      runServerImport,
+    ]
+  );
 
-        const selectedDownload = downloadOptions.reduce((largest, current) =>
-          current.size > largest.size ? current : largest
-        );
+  // Select or deselect a field of a pending metadata update
+  const toggleResyncChange = (importId: string, field: ResyncField) => {
+    // Other tabs only mirror the queue; the leader would overwrite the change
+    if (!isLeader) return;
+    updateImport(importId, (prev) =>
+      prev.resync
+        ? {
+            ...prev,
+            resync: {
+              ...prev.resync,
+              changes: prev.resync.changes.map((change) =>
+                change.field === field
+                  ? { ...change, selected: !change.selected }
+                  : change
+              ),
+            },
+          }
+        : prev
+    );
+  };
 
-        // Step 2: Download video from Vimeo
-        updateImport(id, (prev) => ({
-          ...prev,
-          stage: 'downloading',
-          statusText: `Downloading (${formatBytes(selectedDownload.size)})...`,
-          progress: 15,
-        }));
+  // PATCH the selected fields; the video file is not uploaded again
+  const applyResync = async (importId: string) => {
+    if (!isLeader) return;
+    const item = importsRef.current.find((i) => i.id === importId);
+    if (!item) return;
+    await engine.applyResync(item, (updater) =>
+      updateImport(importId, updater)
+    );
+  };
 
-        const videoResponse = await axios.get(selectedDownload.link, {
-          responseType: 'blob',
-          onDownloadProgress: (evt: { loaded: number; total?: number }) => {
-            if (!evt.total) return;
-            const percent = Math.round((evt.loaded / evt.total) * 100);
-            const downloadProgress = 15 + percent * 0.35;
-            updateImport(id, (prev) => ({
-              ...prev,
-              progress: downloadProgress,
-              statusText: `Downloading... ${percent}%`,
-            }));
-          },
-        });
+  // Leave the existing Ignite video as it is
+  const skipResync = (importId: string) => {
+    if (!isLeader) return;
+    updateImport(importId, (prev) => ({
+      ...prev,
+      stage: 'complete',
+      statusText: 'Already imported - no changes applied',
+      progress: 100,
+      resync: null,
+    }));
+  };
 
-        const videoBlob = videoResponse.data as Blob;
+  // Dry run for a single item - runs every check of runImport up to the
+  // point where the Ignite video would be created, without changing anything
+  const planImport = async (importItem: ImportItem): Promise<PlanRow> => {
+    const row: PlanRow = {
+      vimeoId: importItem.vimeoId,
+      title: null,
+      status: 'fail',
+      reason: null,
+      rendition: null,
+      renditionReason: null,
+      size: null,
+      cors: null,
+      visibility: null,
+      category: null,
+      textTracks: 0,
+      payload: null,
+    };
 
-        // Step 3: Create video in Ignite
-        updateImport(id, (prev) => ({
-          ...prev,
-          stage: 'creating_video',
-          statusText: 'Creating video in Ignite...',
-          progress: 52,
-        }));
+    try {
+      // A retried item already owns its Ignite video
+      const existingCheck = importItem.igniteVideoId
+        ? { exists: false }
+        : await engine.checkExistingVimeoImport(importItem.vimeoId);
+      if (existingCheck.exists) {
+        row.reason =
+          importItem.options.existingMode === 'update'
+            ? `Already imported (ID: ${existingCheck.videoId}), metadata would be re-synced`
+            : `Already imported (ID: ${existingCheck.videoId})`;
+        return row;
+      }
 
-        const { videoId: igniteVideoId, signedUrl } = await createIgniteVideo(
-          vimeoData.name,
-          vimeoData.description,
-          itemVimeoId,
-          options
-        );
+      const vimeoData = await engine.fetchVimeoData(importItem.vimeoId);
+      row.title = vimeoData.name;
 
-        updateImport(id, (prev) => ({
-          ...prev,
-          igniteVideoId,
-          progress: 55,
-        }));
+      let textTracks: VimeoTextTrack[] = [];
+      if (importItem.options.importTextTracks) {
+        textTracks = await engine
+          .fetchVimeoTextTracks(importItem.vimeoId)
+          .catch(() => []);
+      }
+      row.textTracks = textTracks.length;
 
-        // Step 4: Upload video to signed URL
-        updateImport(id, (prev) => ({
-          ...prev,
-          stage: 'uploading',
-          statusText: 'Uploading to Ignite...',
-        }));
+      const settings = resolveImportSettings(
+        importItem,
+        vimeoData,
+        textTracks,
+        categoryMappingsRef.current
+      );
+      row.visibility = settings.appliedVisibility;
+      row.category = settings.appliedCategory;
+      row.payload = buildCreatePayload(
+        vimeoData.name,
+        vimeoData.description,
+        importItem.vimeoId,
+        settings.createOptions,
+        settings.vimeoMetadata
+      );
 
-        await uploadToSignedUrl(
-          signedUrl,
-          videoBlob,
-          selectedDownload.type,
-          (percent: number) => {
-            const uploadProgress = 55 + percent * 0.35;
-            updateImport(id, (prev) => ({
-              ...prev,
-              progress: uploadProgress,
-              statusText: `Uploading... ${percent}%`,
-            }));
-          }
+      if (!vimeoData.download || vimeoData.download.length === 0) {
+        row.reason = 'No download links available.';
+        return row;
+      }
+      const candidates = rankRenditions(
+        vimeoData.download,
+        importItem.options.renditionPolicy
+      );
+      if (candidates.length === 0) {
+        row.reason = noRenditionMessage(
+          vimeoData.download,
+          importItem.options.renditionPolicy
         );
+        return row;
+      }
+      const { download, reason } = candidates[0];
+      row.rendition = describeRendition(download);
+      row.renditionReason = reason;
+      row.size = download.size;
+
+      // Server-side imports never download in the browser
+      if (useServerImport) {
+        row.status = 'ready';
+        return row;
+      }
+      row.cors = await probeCors(
+        downloadRelayUrl
+          ? toRelayUrl(downloadRelayUrl, download.link)
+          : download.link
+      );
+      if (row.cors === 'failure') {
+        row.reason = downloadRelayUrl
+          ? 'Download relay not reachable.'
+          : 'CORS blocked. Download URL does not allow browser access.';
+        return row;
+      }
 
-        // Step 5: Store thumbnail URL for upload after encoding completes
-        let pendingThumbnailUrl: string | null = null;
-        if (
-          vimeoData.pictures?.active &&
-          vimeoData.pictures.sizes &&
-          vimeoData.pictures.sizes.length > 0
-        ) {
-          const largestThumb = vimeoData.pictures.sizes.reduce(
-            (largest, current) =>
-              current.width > largest.width ? current : largest
-          );
-          pendingThumbnailUrl = largestThumb.link;
-        }
+      row.status = 'ready';
+      return row;
+    } catch (error) {
+      row.reason = extractAxiosError(error);
+      return row;
+    }
+  };
 
-        // Step 6: Start polling for encoding status
-        // Thumbnail will be uploaded after encoding completes
-        updateImport(id, (prev) => ({
-          ...prev,
-          stage: 'polling',
-          statusText: 'Processing...',
-          progress: 95,
-          pendingThumbnailUrl,
-        }));
+  // Dry run every pending item, `concurrency` at a time, and collect a plan
+  const runDryRun = async () => {
+    const pending = imports
+      .filter((item) => item.stage === 'pending')
+      .reverse();
+    if (pending.length === 0) return;
+
+    const rows: PlanRow[] = [];
+    let next = 0;
+    setPlanRows([]);
+    setPlanProgress({ status: 'running', done: 0, total: pending.length });
+
+    const worker = async () => {
+      while (next < pending.length) {
+        const item = pending[next++];
+        rows.push(await planImport(item));
+        setPlanRows([...rows]);
+        setPlanProgress({
+          status: 'running',
+          done: rows.length,
+          total: pending.length,
+        });
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, pending.length) }, worker)
+    );
 
-        pollVideoStatus(id, igniteVideoId);
-      } catch (error) {
-        const errorMessage = extractAxiosError(error);
-        updateImport(id, (prev) => ({
-          ...prev,
-          stage: 'error',
-          errorMessage,
-          statusText: 'Failed',
-        }));
+    // Keep the plan in queue order
+    const order = pending.map((item) => item.vimeoId);
+    rows.sort((a, b) => order.indexOf(a.vimeoId) - order.indexOf(b.vimeoId));
+    setPlanRows(rows);
+    setPlanProgress({
+      status: 'complete',
+      done: rows.length,
+      total: pending.length,
+    });
+  };
 
-        const t = pollTimersRef.current.get(id);
-        if (t) {
-          window.clearInterval(t);
-          pollTimersRef.current.delete(id);
-        }
-      }
-    },
-    [updateImport, pollVideoStatus, apiBaseSanitized, igniteToken, vimeoToken]
-  );
+  const closePlan = () => {
+    setPlanRows([]);
+    setPlanProgress(null);
+  };
+
+  // Snapshot of the current options for a new queue item
+  const snapshotOptions = (): ImportItem['options'] => ({
+    visibility,
+    visibilityRules,
+    language,
+    autoTranscribe,
+    tags,
+    categoryId,
+    renditionPolicy,
+    importTextTracks,
+    useCategoryMapping,
+    metadataFields,
+    titleOverride: '',
+    descriptionOverride: '',
+    existingMode,
+    verifyContentHash,
+  });
 
-  // Start a new import
   // Add video(s) to queue (does not start import)
   // Supports comma-separated list of IDs
   const addToQueue = () => {
@@ -824,66 +1150,184 @@ function App() {
     // and clean up each ID
     const ids = vimeoId
       .split(/[,;\n\t\s]+/) // Split by comma, semicolon, newline, tab, or whitespace
-      .map((id) => id.trim())
-      .map((id) => {
-        // Extract numeric ID from Vimeo URLs if pasted
-        // e.g., "https://vimeo.com/123456789" -> "123456789"
-        const urlMatch = id.match(/vimeo\.com\/(\d+)/);
-        if (urlMatch) return urlMatch[1];
-        // Remove any non-numeric characters (keep only digits)
-        return id.replace(/\D/g, '');
-      })
+      .map(parseVimeoId)
       .filter((id) => id.length > 0)
       // Remove duplicates
       .filter((id, index, arr) => arr.indexOf(id) === index);
 
     if (ids.length === 0) return;
 
-    const newImports: ImportItem[] = ids.map((id, index) => ({
-      id: `${Date.now()}-${index}-${id}`,
-      vimeoId: id,
-      stage: 'pending',
-      progress: 0,
-      statusText: 'Queued',
-      vimeoData: null,
-      igniteVideoId: null,
-      thumbnailUrl: null,
-      pendingThumbnailUrl: null,
-      errorMessage: null,
-      options: {
-        visibility,
-        language,
-        autoTranscribe,
-        tags,
-        categoryId,
-      },
-    }));
+    const options = snapshotOptions();
+    const newImports: ImportItem[] = ids.map((id, index) =>
+      createImportItem(id, index, options)
+    );
 
     setImports((prev) => [...newImports, ...prev]);
     setVimeoId(''); // Clear input for next import
   };
 
-  // Start import for a specific queued item
-  const beginImport = (importId: string) => {
-    const importItem = imports.find((i) => i.id === importId);
-    if (!importItem || importItem.stage !== 'pending') return;
+  // Add validated CSV rows to the queue, each with its own option overrides
+  const addCsvRowsToQueue = (rows: CsvQueueRow[]) => {
+    const options = snapshotOptions();
+    const newImports: ImportItem[] = rows.map((row, index) =>
+      createImportItem(
+        row.vimeoId,
+        index,
+        { ...options, ...row.overrides },
+        row.folder
+      )
+    );
+    setImports((prev) => [...newImports, ...prev]);
+  };
 
-    // Update stage to checking before starting
-    updateImport(importId, (prev) => ({
-      ...prev,
-      stage: 'checking',
-      statusText: 'Starting...',
+  const queuedVimeoIds = useMemo(
+    () =>
+      new Set(
+        imports
+          .filter((item) => item.stage !== 'error')
+          .map((item) => item.vimeoId)
+      ),
+    [imports]
+  );
+
+  // Add videos selected in the Video Browser, skipping ones already queued.
+  // Returns how many were added.
+  const addBrowserVideosToQueue = (videos: QueueableVideo[]): number => {
+    const newVideos = videos.filter((v) => !queuedVimeoIds.has(v.vimeoId));
+    if (newVideos.length === 0) return 0;
+
+    const options = snapshotOptions();
+    const newImports: ImportItem[] = newVideos.map((video, index) =>
+      createImportItem(video.vimeoId, index, options, video.folder)
+    );
+    setImports((prev) => [...newImports, ...prev]);
+    return newImports.length;
+  };
+
+  // Ignite videos the queue has created and not finished yet
+  const activeIgniteIds = useMemo(
+    () =>
+      new Set(
+        imports
+          .filter(
+            (item) => item.igniteVideoId && !FINAL_STAGES.includes(item.stage)
+          )
+          .map((item) => item.igniteVideoId as string)
+      ),
+    [imports]
+  );
+
+  // Queue orphaned Ignite videos so the download and upload steps run again
+  // for the existing video (same path as a retry). Returns how many were added.
+  const reattachOrphans = (orphans: OrphanedVideo[]): number => {
+    const newOrphans = orphans.filter(
+      (orphan) => orphan.vimeoId && !activeIgniteIds.has(orphan.igniteId)
+    );
+    const options = snapshotOptions();
+    const newImports: ImportItem[] = newOrphans.map((orphan, index) => ({
+      ...createImportItem(orphan.vimeoId, index, options),
+      igniteVideoId: orphan.igniteId,
+      statusText: 'Queued (reattach file)',
     }));
+    setImports((prev) => [...newImports, ...prev]);
+    return newImports.length;
+  };
 
-    // Get the updated item and run import
-    const updatedItem = {
-      ...importItem,
-      stage: 'checking' as ImportStage,
-      statusText: 'Starting...',
-    };
-    runImport(updatedItem);
+  // Start import for a specific queued item
+  const beginImport = useCallback(
+    (importId: string) => {
+      const importItem = imports.find((i) => i.id === importId);
+      if (!importItem || importItem.stage !== 'pending') return;
+
+      // Update stage to checking before starting
+      updateImport(importId, (prev) => ({
+        ...prev,
+        stage: 'checking',
+        statusText: 'Starting...',
+      }));
+
+      // Get the updated item and run import
+      const updatedItem = {
+        ...importItem,
+        stage: 'checking' as ImportStage,
+        statusText: 'Starting...',
+      };
+      runImport(updatedItem);
+    },
+    [imports, updateImport, runImport]
+  );
+
+  // Queue runner - keeps up to `concurrency` imports in flight and pulls the
+  // next pending item whenever one reaches polling, complete or error
+  useEffect(() => {
+    if (!isLeader || queueState !== 'running') return;
+
+    const inFlight = imports.filter((item) =>
+      IN_FLIGHT_STAGES.includes(item.stage)
+    ).length;
+    // New items are prepended, so the oldest pending items are at the end
+    const pending = imports
+      .filter((item) => item.stage === 'pending')
+      .reverse();
+
+    if (pending.length === 0) {
+      if (inFlight === 0) setQueueState('idle');
+      return;
+    }
+
+    const freeSlots = Math.max(0, concurrency - inFlight);
+    pending.slice(0, freeSlots).forEach((item) => beginImport(item.id));
+  }, [isLeader, queueState, concurrency, imports, beginImport]);
+
+  // Add folders found by the Video Browser to the category mapping table
+  const handleFoldersLoaded = useCallback((folders: VimeoFolderInfo[]) => {
+    setCategoryMappings((prev) => mergeFoldersIntoMappings(prev, folders));
+  }, []);
+
+  // Put failed items back into the queue. Steps that already succeeded are
+  // skipped by runImport (existing video, saved chunks, text tracks); a
+  // failed metadata update goes back to review.
+  const retryImports = (ids: string[]) => {
+    const retryIds = new Set(ids);
+    setImports((prev) =>
+      prev.map((item) => {
+        if (!retryIds.has(item.id) || item.stage !== 'error') return item;
+        if (item.failedStage === 'updating' && item.resync) {
+          return {
+            ...item,
+            stage: 'reviewing',
+            statusText: 'Review changes and apply again',
+            errorMessage: null,
+          };
+        }
+        return {
+          ...item,
+          stage: 'pending',
+          progress: 0,
+          statusText: item.failedStage
+            ? `Retry (failed while ${getStageLabel(
+                item.failedStage
+              ).toLowerCase()})`
+            : 'Retry',
+          errorMessage: null,
+          serverJobId: null,
+        };
+      })
+    );
+    if (queueState === 'idle') setQueueState('running');
   };
 
+  const retryImport = (id: string) => retryImports([id]);
+
+  const retryAllFailed = () =>
+    retryImports(
+      imports.filter((item) => item.stage === 'error').map((item) => item.id)
+    );
+
+  const startAll = () => setQueueState('running');
+  const pauseQueue = () => setQueueState('paused');
+  const resumeQueue = () => setQueueState('running');
+
   // Remove a completed or errored import from the list
   const removeImport = (id: string) => {
     const t = pollTimersRef.current.get(id);
@@ -891,6 +1335,7 @@ function App() {
       window.clearInterval(t);
       pollTimersRef.current.delete(id);
     }
+    deleteChunks(id).catch(() => undefined);
     setImports((prev) => prev.filter((item) => item.id !== id));
   };
 
@@ -903,6 +1348,7 @@ function App() {
           window.clearInterval(t);
           pollTimersRef.current.delete(item.id);
         }
+        deleteChunks(item.id).catch(() => undefined);
       }
     });
     setImports((prev) =>
@@ -910,15 +1356,6 @@ function App() {
     );
   };
 
-  // Format bytes to human readable
-  const formatBytes = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
-  };
-
   // Format duration
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -938,10 +1375,14 @@ function App() {
         return 'downloading';
       case 'creating_video':
       case 'uploading':
+      case 'uploading_text_tracks':
       case 'uploading_thumbnail':
+      case 'updating':
         return 'uploading';
       case 'polling':
         return 'processing';
+      case 'reviewing':
+        return 'partial';
       case 'complete':
         return 'complete';
       case 'error':
@@ -960,8 +1401,11 @@ function App() {
       downloading: 'Downloading',
       creating_video: 'Creating',
       uploading: 'Uploading',
+      uploading_text_tracks: 'Captions',
       uploading_thumbnail: 'Thumbnail',
       polling: 'Processing',
+      reviewing: 'Review',
+      updating: 'Updating',
       complete: 'Complete',
       error: 'Error',
     };
@@ -972,6 +1416,15 @@ function App() {
     (item) => item.stage === 'complete' || item.stage === 'error'
   );
 
+  const pendingCount = imports.filter(
+    (item) => item.stage === 'pending'
+  ).length;
+
+  const failedCount = imports.filter((item) => item.stage === 'error').length;
+  const inFlightCount = imports.filter((item) =>
+    IN_FLIGHT_STAGES.includes(item.stage)
+  ).length;
+
   return (
     <div className="importer-root">
       <header className="header">
@@ -995,6 +1448,18 @@ function App() {
         >
           Video Browser
         </button>
+        <button
+          className={`tab-btn ${activeTab === 'categories' ? 'active' : ''}`}
+          onClick={() => setActiveTab('categories')}
+        >
+          Categories
+        </button>
+        <button
+          className={`tab-btn ${activeTab === 'maintenance' ? 'active' : ''}`}
+          onClick={() => setActiveTab('maintenance')}
+        >
+          Maintenance
+        </button>
       </nav>
 
       {activeTab === 'importer' && (
@@ -1039,6 +1504,56 @@ function App() {
                   onChange={(e) => setApiBase(e.target.value)}
                 />
               </div>
+
+              <div className="form-row">
+                <label></label>
+                <div className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    id="use-relay"
+                    checked={useRelay}
+                    onChange={(e) => setUseRelay(e.target.checked)}
+                  />
+                  <label htmlFor="use-relay">
+                    Download through local relay
+                  </label>
+                </div>
+              </div>
+
+              <div className="form-row">
+                <label></label>
+                <div className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    id="use-server-import"
+                    checked={useServerImport}
+                    onChange={(e) => setUseServerImport(e.target.checked)}
+                  />
+                  <label htmlFor="use-server-import">
+                    Run imports on local server
+                  </label>
+                </div>
+              </div>
+
+              {(useRelay || useServerImport) && (
+                <div className="form-row">
+                  <label htmlFor="server-url">Local Server URL</label>
+                  <input
+                    id="server-url"
+                    type="text"
+                    placeholder={DEFAULT_SERVER_URL}
+                    value={serverUrl}
+                    onChange={(e) => setServerUrl(e.target.value)}
+                  />
+                </div>
+              )}
+              <p className="settings-hint">
+                Start the local server with "npm run server". The relay is for
+                Vimeo links without CORS headers and is switched on when "Test
+                CORS" is blocked. With server imports the file goes from Vimeo
+                to Ignite without passing through the browser, with no size
+                limit.
+              </p>
             </section>
 
             {/* Video Input Section */}
@@ -1056,6 +1571,14 @@ function App() {
                 />
               </div>
 
+              {/* CSV upload with per-row overrides */}
+              {isLeader && vimeoToken.trim() && igniteToken.trim() && (
+                <CsvQueueImport
+                  queuedVimeoIds={queuedVimeoIds}
+                  onQueue={addCsvRowsToQueue}
+                />
+              )}
+
               {/* CORS Test */}
               {corsResult !== 'untested' && (
                 <div
@@ -1084,14 +1607,40 @@ function App() {
                   id="visibility"
                   value={visibility}
                   onChange={(e) =>
-                    setVisibility(e.target.value as 'private' | 'public')
+                    setVisibility(e.target.value as VisibilityOption)
                   }
                 >
                   <option value="private">Private</option>
                   <option value="public">Public</option>
+                  <option value="inherit">Inherit from Vimeo</option>
                 </select>
               </div>
 
+              {visibility === 'inherit' && (
+                <div className="visibility-rules">
+                  {VIMEO_PRIVACY_VIEWS.map((view) => (
+                    <div className="form-row" key={view.value}>
+                      <label htmlFor={`visibility-rule-${view.value}`}>
+                        {view.label}
+                      </label>
+                      <select
+                        id={`visibility-rule-${view.value}`}
+                        value={visibilityRules[view.value] || 'private'}
+                        onChange={(e) =>
+                          setVisibilityRules((prev) => ({
+                            ...prev,
+                            [view.value]: e.target.value as IgniteVisibility,
+                          }))
+                        }
+                      >
+                        <option value="private">→ Private</option>
+                        <option value="public">→ Public</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="form-row">
                 <label htmlFor="language">Language</label>
                 <input
@@ -1125,6 +1674,23 @@ function App() {
                 />
               </div>
 
+              <div className="form-row">
+                <label></label>
+                <div className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    id="use-category-mapping"
+                    checked={useCategoryMapping}
+                    onChange={(e) => setUseCategoryMapping(e.target.checked)}
+                  />
+                  <label htmlFor="use-category-mapping">
+                    Category from Vimeo folder (
+                    {categoryMappings.filter((m) => m.categoryId).length}{' '}
+                    mapped)
+                  </label>
+                </div>
+              </div>
+
               <div className="form-row">
                 <label></label>
                 <div className="checkbox-row">
@@ -1137,6 +1703,177 @@ function App() {
                   <label htmlFor="auto-transcribe">Auto-transcribe</label>
                 </div>
               </div>
+
+              <div className="form-row">
+                <label></label>
+                <div className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    id="import-text-tracks"
+                    checked={importTextTracks}
+                    onChange={(e) => setImportTextTracks(e.target.checked)}
+                  />
+                  <label htmlFor="import-text-tracks">
+                    Import Vimeo captions/subtitles
+                  </label>
+                </div>
+              </div>
+
+              <div className="form-row">
+                <label></label>
+                <div className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    id="verify-content-hash"
+                    checked={verifyContentHash}
+                    onChange={(e) => setVerifyContentHash(e.target.checked)}
+                  />
+                  <label htmlFor="verify-content-hash">
+                    Verify content hash (MD5)
+                  </label>
+                </div>
+              </div>
+
+              <div className="form-row">
+                <label htmlFor="rendition-mode">Rendition</label>
+                <select
+                  id="rendition-mode"
+                  value={renditionPolicy.mode}
+                  onChange={(e) =>
+                    setRenditionPolicy((prev) => ({
+                      ...prev,
+                      mode: e.target.value as RenditionMode,
+                    }))
+                  }
+                >
+                  <option value="largest">Largest (excluding source)</option>
+                  <option value="source">Prefer source/original</option>
+                  <option value="max_height">Cap at max height</option>
+                  <option value="max_size">Cap at max file size</option>
+                  <option value="type">Prefer file type</option>
+                </select>
+              </div>
+
+              {renditionPolicy.mode === 'max_height' && (
+                <div className="form-row">
+                  <label htmlFor="rendition-max-height">Max Height (px)</label>
+                  <input
+                    id="rendition-max-height"
+                    type="number"
+                    min={1}
+                    value={renditionPolicy.maxHeight}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (value > 0) {
+                        setRenditionPolicy((prev) => ({
+                          ...prev,
+                          maxHeight: value,
+                        }));
+                      }
+                    }}
+                  />
+                </div>
+              )}
+
+              {renditionPolicy.mode === 'max_size' && (
+                <div className="form-row">
+                  <label htmlFor="rendition-max-size">Max Size (MB)</label>
+                  <input
+                    id="rendition-max-size"
+                    type="number"
+                    min={1}
+                    value={renditionPolicy.maxSizeMB}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (value > 0) {
+                        setRenditionPolicy((prev) => ({
+                          ...prev,
+                          maxSizeMB: value,
+                        }));
+                      }
+                    }}
+                  />
+                </div>
+              )}
+
+              {renditionPolicy.mode === 'type' && (
+                <div className="form-row">
+                  <label htmlFor="rendition-type">File Type</label>
+                  <input
+                    id="rendition-type"
+                    type="text"
+                    placeholder="e.g., video/mp4"
+                    value={renditionPolicy.preferredType}
+                    onChange={(e) =>
+                      setRenditionPolicy((prev) => ({
+                        ...prev,
+                        preferredType: e.target.value.trim(),
+                      }))
+                    }
+                  />
+                </div>
+              )}
+
+              <div className="form-row">
+                <label>Vimeo Metadata</label>
+                <div className="checkbox-grid">
+                  {(
+                    Object.keys(METADATA_FIELD_LABELS) as Array<
+                      keyof MetadataFields
+                    >
+                  ).map((field) => (
+                    <div className="checkbox-row" key={field}>
+                      <input
+                        type="checkbox"
+                        id={`metadata-${field}`}
+                        checked={metadataFields[field]}
+                        onChange={(e) =>
+                          setMetadataFields((prev) => ({
+                            ...prev,
+                            [field]: e.target.checked,
+                          }))
+                        }
+                      />
+                      <label htmlFor={`metadata-${field}`}>
+                        {METADATA_FIELD_LABELS[field]}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="form-row">
+                <label htmlFor="existing-mode">If Already Imported</label>
+                <select
+                  id="existing-mode"
+                  value={existingMode}
+                  onChange={(e) =>
+                    setExistingMode(e.target.value as ExistingMode)
+                  }
+                >
+                  <option value="skip">Skip (mark as error)</option>
+                  <option value="update">
+                    Update metadata (title, description, tags, thumbnail)
+                  </option>
+                </select>
+              </div>
+
+              <div className="form-row">
+                <label htmlFor="concurrency">Parallel Imports</label>
+                <input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= 1 && value <= MAX_CONCURRENCY) {
+                      setConcurrency(value);
+                    }
+                  }}
+                />
+              </div>
             </section>
 
             {/* Actions */}
@@ -1157,7 +1894,7 @@ function App() {
                 {corsResult === 'testing' ? 'Testing...' : 'Test CORS'}
               </button>
 
-              {hasFinishedImports && (
+              {isLeader && hasFinishedImports && (
                 <button className="btn-secondary" onClick={clearFinished}>
                   Clear Finished
                 </button>
@@ -1170,6 +1907,56 @@ function App() {
             <div className="import-queue">
               <h2 className="section-title">Import Queue</h2>
 
+              {tabRole === 'follower' && (
+                <p className="settings-hint queue-mirror-notice">
+                  <strong>Read-only:</strong> the importer is open in another
+                  tab, which runs the imports. This tab shows its queue and
+                  takes over when that tab is closed.
+                </p>
+              )}
+
+              {isLeader && imports.length > 0 && (
+                <div className="queue-controls">
+                  {queueState === 'idle' && (
+                    <button
+                      className="btn-primary"
+                      onClick={startAll}
+                      disabled={pendingCount === 0}
+                    >
+                      Start All
+                    </button>
+                  )}
+                  {queueState === 'running' && (
+                    <button className="btn-secondary" onClick={pauseQueue}>
+                      Pause Queue
+                    </button>
+                  )}
+                  {queueState === 'paused' && (
+                    <button className="btn-primary" onClick={resumeQueue}>
+                      Resume Queue
+                    </button>
+                  )}
+                  {failedCount > 0 && (
+                    <button className="btn-secondary" onClick={retryAllFailed}>
+                      Retry All Failed ({failedCount})
+                    </button>
+                  )}
+                  <button
+                    className="btn-test"
+                    onClick={runDryRun}
+                    disabled={
+                      pendingCount === 0 || planProgress?.status === 'running'
+                    }
+                  >
+                    Dry Run
+                  </button>
+                  <span className="queue-summary">
+                    {queueState === 'paused' && 'Paused · '}
+                    {inFlightCount}/{concurrency} active · {pendingCount} queued
+                  </span>
+                </div>
+              )}
+
               {imports.length === 0 ? (
                 <div className="queue-empty">
                   <p>No imports yet</p>
@@ -1179,7 +1966,7 @@ function App() {
                 </div>
               ) : (
                 <div className="queue-list">
-                  {imports.map((item) => (
+                  {imports.slice(0, queueVisibleCount).map((item) => (
                     <div
                       className={`queue-item ${
                         item.stage === 'complete'
@@ -1204,29 +1991,44 @@ function App() {
                               {getStageLabel(item.stage)}
                             </span>
                           )}
-                          {(item.stage === 'pending' ||
-                            item.stage === 'complete' ||
-                            item.stage === 'error' ||
-                            item.stage === 'polling') && (
+                          {isLeader && item.stage === 'error' && (
                             <button
-                              className="btn-remove"
-                              onClick={() => removeImport(item.id)}
-                              title="Remove"
+                              className="btn-retry"
+                              onClick={() => retryImport(item.id)}
+                              title="Retry from the failed stage"
                             >
-                              ×
+                              Retry
                             </button>
                           )}
+                          {isLeader &&
+                            (item.stage === 'pending' ||
+                              item.stage === 'complete' ||
+                              item.stage === 'error' ||
+                              item.stage === 'polling' ||
+                              item.stage === 'reviewing') && (
+                              <button
+                                className="btn-remove"
+                                onClick={() => removeImport(item.id)}
+                                title="Remove"
+                              >
+                                ×
+                              </button>
+                            )}
                         </div>
                       </div>
 
                       {/* Pending: Show start button */}
-                      {item.stage === 'pending' && (
+                      {isLeader && item.stage === 'pending' && (
                         <div className="queue-item-pending">
                           <button
                             className="btn-start-import"
                             onClick={() => beginImport(item.id)}
                           >
-                            Start Import
+                            {item.downloadOffset > 0
+                              ? `Resume Download (${formatBytes(
+                                  item.downloadOffset
+                                )} saved)`
+                              : 'Start Import'}
                           </button>
                         </div>
                       )}
@@ -1258,10 +2060,10 @@ function App() {
                       {item.stage === 'complete' && item.igniteVideoId && (
                         <div className="queue-item-success">
                           <a
-                            href={`${apiBaseSanitized.replace(
-                              '/api',
-                              ''
-                            )}/admin/collections/videos/${item.igniteVideoId}`}
+                            href={igniteAdminUrl(
+                              apiBaseSanitized,
+                              item.igniteVideoId
+                            )}
                             target="_blank"
                             rel="noreferrer"
                           >
@@ -1270,6 +2072,85 @@ function App() {
                         </div>
                       )}
 
+                      {/* Metadata changes for an existing Ignite video */}
+                      {item.stage === 'reviewing' && item.resync && (
+                        <div className="resync-review">
+                          {item.resync.changes.map((change) => (
+                            <label key={change.field} className="resync-change">
+                              <input
+                                type="checkbox"
+                                checked={change.selected}
+                                disabled={!isLeader}
+                                onChange={() =>
+                                  toggleResyncChange(item.id, change.field)
+                                }
+                              />
+                              <span className="resync-field">
+                                {RESYNC_FIELD_LABELS[change.field]}
+                              </span>
+                              <span className="resync-current">
+                                {change.current || '(empty)'}
+                              </span>
+                              <span className="resync-arrow">→</span>
+                              <span className="resync-proposed">
+                                {change.proposed || '(empty)'}
+                              </span>
+                            </label>
+                          ))}
+                          {isLeader && (
+                            <div className="resync-actions">
+                              <button
+                                className="btn-primary"
+                                onClick={() => applyResync(item.id)}
+                              >
+                                Apply Selected
+                              </button>
+                              <button
+                                className="btn-secondary"
+                                onClick={() => skipResync(item.id)}
+                              >
+                                Skip
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Chosen rendition */}
+                      {item.selectedRendition && (
+                        <div
+                          className="queue-item-rendition"
+                          title={item.renditionReason || undefined}
+                        >
+                          {item.selectedRendition}
+                          {item.renditionReason && ` — ${item.renditionReason}`}
+                        </div>
+                      )}
+
+                      {item.appliedVisibility && (
+                        <div className="queue-item-rendition">
+                          Visibility: {item.appliedVisibility}
+                        </div>
+                      )}
+
+                      {item.appliedCategory && (
+                        <div className="queue-item-rendition">
+                          Category: {item.appliedCategory}
+                        </div>
+                      )}
+
+                      {item.importedTextTracks.length > 0 && (
+                        <div className="queue-item-rendition">
+                          Text tracks: {item.importedTextTracks.join(', ')}
+                        </div>
+                      )}
+
+                      {item.contentHash && (
+                        <div className="queue-item-rendition">
+                          MD5: {item.contentHash}
+                        </div>
+                      )}
+
                       {/* Video info */}
                       <div className="queue-item-info">
                         {item.vimeoData && (
@@ -1291,6 +2172,16 @@ function App() {
                       </div>
                     </div>
                   ))}
+                  {imports.length > queueVisibleCount && (
+                    <button
+                      className="btn-secondary queue-show-more"
+                      onClick={() =>
+                        setQueueVisibleCount((prev) => prev + QUEUE_PAGE_SIZE)
+                      }
+                    >
+                      Show More ({imports.length - queueVisibleCount} hidden)
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -1298,7 +2189,48 @@ function App() {
         </div>
       )}
 
-      {activeTab === 'browser' && <VideoBrowser vimeoToken={vimeoToken} />}
+      {activeTab === 'importer' && planProgress && (
+        <MigrationPlan
+          rows={planRows}
+          progress={planProgress}
+          onClose={closePlan}
+        />
+      )}
+
+      {activeTab === 'browser' && (
+        <VideoBrowser
+          vimeoToken={vimeoToken}
+          igniteToken={igniteToken}
+          apiBase={apiBaseSanitized}
+          onFoldersLoaded={handleFoldersLoaded}
+          onAddToQueue={isLeader ? addBrowserVideosToQueue : undefined}
+        />
+      )}
+
+      {activeTab === 'categories' && (
+        <CategoryMappingEditor
+          igniteToken={igniteToken}
+          apiBase={apiBaseSanitized}
+          mappings={categoryMappings}
+          onMappingsChange={setCategoryMappings}
+        />
+      )}
+
+      {activeTab === 'maintenance' && (
+        <>
+          <ThumbnailBackfill
+            vimeoToken={vimeoToken}
+            igniteToken={igniteToken}
+            apiBase={apiBaseSanitized}
+          />
+          <OrphanedVideos
+            igniteToken={igniteToken}
+            apiBase={apiBaseSanitized}
+            activeIgniteIds={activeIgniteIds}
+            onReattach={isLeader ? reattachOrphans : undefined}
+          />
+        </>
+      )}
 
       <footer className="footer">
         <span>Vimeo ID is stored in customMetadata.vimeoId</span>
@@ -0,0 +1,369 @@
+import axios from 'axios';
+import { appendFileSync, readFileSync } from 'fs';
+import { parseQueueCSV } from '../lib/csvQueue';
+import {
+  DEFAULT_RENDITION_POLICY,
+  RENDITION_MODES,
+  RenditionMode,
+} from '../lib/renditions';
+import { parseVimeoId } from '../lib/vimeoId';
+import {
+  DEFAULT_METADATA_FIELDS,
+  DEFAULT_VISIBILITY_RULES,
+  FINAL_STAGES,
+  ImportItem,
+  ImportItemUpdater,
+  createImportEngine,
+  createImportItem,
+  delay,
+} from '../lib/importEngine';
+import { streamToSignedUrl } from '../server/upstream';
+
+// Headless importer: runs the same pipeline as the web UI for a list of
+// Vimeo IDs or a queue CSV file and writes a JSON-lines progress log.
+//
+//   npm run build:cli
+//   npm run cli -- --ids 123,456 --concurrency 4
+
+const DEFAULT_API_BASE = 'https://app.ignitevideo.cloud/api';
+const DEFAULT_LOG_FILE = 'vimeo-import-log.jsonl';
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 10;
+const DEFAULT_ENCODING_TIMEOUT_MINUTES = 120;
+const POLL_INTERVAL_MS = 10000;
+
+// Exit codes
+const EXIT_FAILED = 1; // At least one item failed
+const EXIT_USAGE = 2; // Invalid arguments
+
+const USAGE = `Usage: npm run cli -- [options]
+
+Input (one of):
+  --ids <list>              Vimeo IDs or URLs, comma separated
+  --csv <file>              Queue CSV file (same columns as the web UI)
+
+Credentials (or the VIMEO_TOKEN, IGNITE_TOKEN and IGNITE_API_BASE variables):
+  --vimeo-token <token>
+  --ignite-token <token>
+  --api-base <url>          Default: ${DEFAULT_API_BASE}
+
+Options:
+  --concurrency <n>         Parallel transfers, 1-${MAX_CONCURRENCY} (default ${DEFAULT_CONCURRENCY})
+  --log <file>              JSON-lines progress log (default ${DEFAULT_LOG_FILE})
+  --visibility <value>      private, public or inherit (default private)
+  --language <code>         Video language, e.g. "en"
+  --tags <list>             Comma-separated tags
+  --category <id>           Ignite category ID
+  --auto-transcribe         Let Ignite transcribe the video
+  --no-text-tracks          Do not import Vimeo captions and subtitles
+  --verify-hash             Compare the MD5 of each file with the stored
+                            upload's ETag
+  --existing <mode>         skip or update (default skip)
+  --rendition <mode>        ${RENDITION_MODES.join(', ')} (default largest)
+  --encoding-timeout <min>  Give up waiting for encoding after this many
+                            minutes (default ${DEFAULT_ENCODING_TIMEOUT_MINUTES})
+  --help
+`;
+
+class UsageError extends Error {}
+
+// Flags that take no value
+const BOOLEAN_FLAGS = [
+  'auto-transcribe',
+  'no-text-tracks',
+  'verify-hash',
+  'help',
+];
+
+// Parse "--name value" and "--flag" arguments
+const parseArgs = (argv: string[]): Record<string, string | true> => {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new UsageError(`Unexpected argument "${arg}"`);
+    }
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      args[name] = true;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      args[name] = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for ${arg}`);
+    }
+  }
+  return args;
+};
+
+// Options snapshot for every queued item, built from the flags
+const buildOptions = (
+  args: Record<string, string | true>
+): ImportItem['options'] => {
+  const value = (name: string) =>
+    typeof args[name] === 'string' ? (args[name] as string) : '';
+
+  const visibility = value('visibility') || 'private';
+  if (
+    visibility !== 'private' &&
+    visibility !== 'public' &&
+    visibility !== 'inherit'
+  ) {
+    throw new UsageError(`Invalid --visibility "${visibility}"`);
+  }
+
+  const existingMode = value('existing') || 'skip';
+  if (existingMode !== 'skip' && existingMode !== 'update') {
+    throw new UsageError(`Invalid --existing "${existingMode}"`);
+  }
+
+  const renditionMode = (value('rendition') ||
+    DEFAULT_RENDITION_POLICY.mode) as RenditionMode;
+  if (!RENDITION_MODES.includes(renditionMode)) {
+    throw new UsageError(`Invalid --rendition "${renditionMode}"`);
+  }
+
+  return {
+    visibility,
+    visibilityRules: DEFAULT_VISIBILITY_RULES,
+    language: value('language'),
+    autoTranscribe: args['auto-transcribe'] === true,
+    tags: value('tags'),
+    categoryId: value('category'),
+    renditionPolicy: { ...DEFAULT_RENDITION_POLICY, mode: renditionMode },
+    importTextTracks: args['no-text-tracks'] !== true,
+    useCategoryMapping: false,
+    metadataFields: DEFAULT_METADATA_FIELDS,
+    titleOverride: '',
+    descriptionOverride: '',
+    existingMode,
+    verifyContentHash: args['verify-hash'] === true,
+  };
+};
+
+const main = async (): Promise<number> => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const value = (name: string, envName?: string) =>
+    (typeof args[name] === 'string' ? (args[name] as string) : '') ||
+    (envName && process.env[envName]) ||
+    '';
+
+  const vimeoToken = value('vimeo-token', 'VIMEO_TOKEN');
+  const igniteToken = value('ignite-token', 'IGNITE_TOKEN');
+  const apiBase = (value('api-base', 'IGNITE_API_BASE') || DEFAULT_API_BASE)
+    .trim()
+    .replace(/\/$/, '');
+  if (!vimeoToken || !igniteToken) {
+    throw new UsageError('Both a Vimeo and an Ignite token are required');
+  }
+  if (!args.ids === !args.csv) {
+    throw new UsageError('Pass exactly one of --ids or --csv');
+  }
+
+  const concurrency = parseInt(
+    value('concurrency') || String(DEFAULT_CONCURRENCY),
+    10
+  );
+  if (!(concurrency >= 1 && concurrency <= MAX_CONCURRENCY)) {
+    throw new UsageError(`--concurrency must be 1-${MAX_CONCURRENCY}`);
+  }
+  const encodingTimeoutMs =
+    parseFloat(
+      value('encoding-timeout') || String(DEFAULT_ENCODING_TIMEOUT_MINUTES)
+    ) * 60000;
+  if (!(encodingTimeoutMs > 0)) {
+    throw new UsageError('--encoding-timeout must be a positive number');
+  }
+  const logFile = value('log') || DEFAULT_LOG_FILE;
+  const options = buildOptions(args);
+
+  // One JSON object per line
+  const log = (record: Record<string, unknown>) =>
+    appendFileSync(
+      logFile,
+      JSON.stringify({ time: new Date().toISOString(), ...record }) + '\n'
+    );
+
+  // Build the queue; rejected CSV rows count as failures
+  const items: ImportItem[] = [];
+  let rejectedCount = 0;
+  if (typeof args.ids === 'string') {
+    const ids = args.ids
+      .split(/[,;\s]+/)
+      .map(parseVimeoId)
+      .filter((id, index, arr) => id && arr.indexOf(id) === index);
+    ids.forEach((id, index) =>
+      items.push(createImportItem(id, index, options))
+    );
+  } else if (typeof args.csv === 'string') {
+    const { rows, fileError } = parseQueueCSV(
+      readFileSync(args.csv, 'utf8'),
+      new Set()
+    );
+    if (fileError) throw new UsageError(`${args.csv}: ${fileError}`);
+
+    rows.forEach((row, index) => {
+      if (row.errors.length > 0) {
+        rejectedCount++;
+        log({
+          event: 'rejected',
+          row: row.rowNumber,
+          vimeoId: row.vimeoId || null,
+          error: row.errors.join('; '),
+        });
+        console.error(`Row ${row.rowNumber}: ${row.errors.join('; ')}`);
+        return;
+      }
+      items.push(
+        createImportItem(
+          row.vimeoId,
+          index,
+          { ...options, ...row.overrides },
+          row.folder
+        )
+      );
+    });
+  }
+  if (items.length === 0 && rejectedCount === 0) {
+    throw new UsageError('No Vimeo IDs to import');
+  }
+
+  // Browser-style Blob responses for text tracks (the Node http adapter has
+  // no Blob support). Videos are streamed, see below.
+  axios.defaults.adapter = 'fetch';
+
+  const engine = createImportEngine({ vimeoToken, igniteToken, apiBase });
+  const current = new Map(items.map((item) => [item.id, item]));
+
+  // Apply a change and log stage changes and every 10% of progress
+  const updaterFor =
+    (id: string): ImportItemUpdater =>
+    (updater) => {
+      const prev = current.get(id) as ImportItem;
+      const next = updater(prev);
+      current.set(id, next);
+
+      if (
+        next.stage === prev.stage &&
+        Math.floor(next.progress / 10) === Math.floor(prev.progress / 10)
+      ) {
+        return;
+      }
+      log({
+        event: 'progress',
+        id,
+        vimeoId: next.vimeoId,
+        stage: next.stage,
+        progress: Math.round(next.progress),
+        status: next.statusText,
+        igniteVideoId: next.igniteVideoId,
+        error: next.errorMessage,
+      });
+      if (next.stage !== prev.stage) {
+        console.log(
+          `[${next.vimeoId}] ${next.stage}` +
+            (next.errorMessage ? `: ${next.errorMessage}` : '')
+        );
+      }
+    };
+
+  // Poll until encoding finished, failed or timed out
+  const waitForEncoding = async (id: string, videoId: string) => {
+    const update = updaterFor(id);
+    const deadline = Date.now() + encodingTimeoutMs;
+    while (
+      !(await engine.checkEncoding(videoId, () => current.get(id), update))
+    ) {
+      if (Date.now() > deadline) {
+        update((prev) => ({
+          ...prev,
+          stage: 'error',
+          errorMessage: 'Timed out waiting for encoding',
+          failedStage: 'polling',
+        }));
+        return;
+      }
+      await delay(POLL_INTERVAL_MS);
+    }
+  };
+
+  // Transfers run `concurrency` at a time; encoding is waited for outside
+  // the pool so a slot frees up as soon as the upload is done
+  log({
+    event: 'start',
+    total: items.length,
+    rejected: rejectedCount,
+    concurrency,
+  });
+  const encodingWaits: Array<Promise<void>> = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const { id } = items[next++];
+      const update = updaterFor(id);
+      update((prev) => ({
+        ...prev,
+        stage: 'checking',
+        statusText: 'Starting...',
+      }));
+
+      // Stream each video from Vimeo straight to the upload URL, like the
+      // server jobs, so multi-GB files are never held in memory
+      const pollVideoId = await engine.runImport(
+        current.get(id) as ImportItem,
+        { update, categoryMappings: [], streamTransfer: streamToSignedUrl }
+      );
+      if (pollVideoId) {
+        encodingWaits.push(waitForEncoding(id, pollVideoId));
+      } else if (current.get(id)?.stage === 'reviewing') {
+        // No one to review: apply the proposed metadata changes
+        await engine.applyResync(current.get(id) as ImportItem, update);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+  await Promise.all(encodingWaits);
+
+  const finished = Array.from(current.values());
+  const failedCount =
+    finished.filter((item) => item.stage === 'error').length + rejectedCount;
+  const completeCount = finished.filter(
+    (item) => item.stage === 'complete'
+  ).length;
+  const unfinishedCount = finished.filter(
+    (item) => !FINAL_STAGES.includes(item.stage)
+  ).length;
+
+  log({
+    event: 'summary',
+    total: items.length + rejectedCount,
+    complete: completeCount,
+    failed: failedCount,
+  });
+  console.log(
+    `${completeCount} complete, ${failedCount} failed` +
+      (unfinishedCount > 0 ? `, ${unfinishedCount} unfinished` : '') +
+      ` (log: ${logFile})`
+  );
+  return failedCount > 0 || unfinishedCount > 0 ? EXIT_FAILED : 0;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    console.error(error);
+    process.exitCode = EXIT_FAILED;
+  });
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { CategoryMapping } from '../../lib/folders';
+import { IgniteCategory, createIgniteClient } from '../../lib/igniteApi';
+
+interface CategoryMappingEditorProps {
+  igniteToken: string;
+  apiBase: string;
+  mappings: CategoryMapping[];
+  onMappingsChange: (mappings: CategoryMapping[]) => void;
+}
+
+// Category titles are matched ignoring case and surrounding spaces
+const sameTitle = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Category name for a folder row - the last segment of its path
+const folderDisplayName = (mapping: CategoryMapping): string => {
+  const parts = mapping.folderPath.split('/');
+  return parts[parts.length - 1] || mapping.folderPath;
+};
+
+export function CategoryMappingEditor({
+  igniteToken,
+  apiBase,
+  mappings,
+  onMappingsChange,
+}: CategoryMappingEditorProps) {
+  const [categories, setCategories] = useState<IgniteCategory[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [newFolderPath, setNewFolderPath] = useState<string>('');
+
+  const ignite = createIgniteClient(apiBase, igniteToken);
+
+  // Load all Ignite categories
+  const loadCategories = async () => {
+    setIsBusy(true);
+    setStatus('Loading categories...');
+    try {
+      const docs = await ignite.listCategories();
+      setCategories(docs);
+      setStatus(`Loaded ${docs.length} categories`);
+    } catch (error) {
+      setStatus(`Failed to load categories: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<CategoryMapping>) => {
+    onMappingsChange(
+      mappings.map((m, i) => (i === index ? { ...m, ...changes } : m))
+    );
+  };
+
+  const selectCategory = (index: number, categoryId: string) => {
+    const category = categories.find((c) => c.id === categoryId);
+    updateMapping(index, {
+      categoryId,
+      categoryTitle: category?.title || '',
+    });
+  };
+
+  const removeMapping = (index: number) => {
+    onMappingsChange(mappings.filter((_, i) => i !== index));
+  };
+
+  const addFolderPath = () => {
+    const folderPath = newFolderPath.trim().replace(/^\/+|\/+$/g, '');
+    if (!folderPath || mappings.some((m) => m.folderPath === folderPath)) {
+      return;
+    }
+    onMappingsChange([
+      ...mappings,
+      { folderId: null, folderPath, categoryId: '', categoryTitle: '' },
+    ]);
+    setNewFolderPath('');
+  };
+
+  // Create an Ignite category for every unmapped folder (reusing an existing
+  // category with the same title) and map the folder to it. The category
+  // list is loaded first, even if it was loaded before, so categories that
+  // exist in Ignite are never created twice.
+  const createMissingCategories = async () => {
+    const unmapped = mappings.filter((m) => !m.categoryId.trim());
+    if (unmapped.length === 0) return;
+    if (
+      !window.confirm(
+        `Create or assign categories for ${unmapped.length} unmapped folder(s)?`
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setStatus('Loading categories...');
+    let knownCategories: IgniteCategory[];
+    try {
+      knownCategories = await ignite.listCategories();
+    } catch (error) {
+      setStatus(`Failed to load categories: ${(error as Error).message}`);
+      setIsBusy(false);
+      return;
+    }
+    const updated = [...mappings];
+    let created = 0;
+    let failed = 0;
+
+    for (let i = 0; i < updated.length; i++) {
+      if (updated[i].categoryId.trim()) continue;
+      const title = folderDisplayName(updated[i]);
+      setStatus(`Creating category "${title}"...`);
+
+      let category = knownCategories.find((c) => sameTitle(c.title, title));
+      if (!category) {
+        try {
+          category = await ignite.createCategory(title);
+          knownCategories.push(category);
+          created++;
+        } catch (error) {
+          console.warn(`Failed to create category "${title}":`, error);
+          failed++;
+          continue;
+        }
+      }
+
+      updated[i] = {
+        ...updated[i],
+        categoryId: category.id,
+        categoryTitle: category.title,
+      };
+    }
+
+    setCategories(knownCategories);
+    onMappingsChange(updated);
+    setStatus(
+      `Created ${created} categories${failed > 0 ? `, ${failed} failed` : ''}`
+    );
+    setIsBusy(false);
+  };
+
+  const hasToken = igniteToken.trim().length > 0;
+  const unmappedCount = mappings.filter((m) => !m.categoryId.trim()).length;
+
+  return (
+    <div className="category-mapping">
+      <section className="section">
+        <h2 className="section-title">Folder → Category Mapping</h2>
+        <p className="settings-hint">
+          Queued videos get the Ignite category mapped to their Vimeo folder. A
+          mapping for a parent folder path also applies to its subfolders. Run
+          "Fetch All Videos" in the Video Browser to list every folder here.
+        </p>
+
+        <div className="browser-actions">
+          <button
+            className="btn-secondary"
+            onClick={loadCategories}
+            disabled={isBusy || !hasToken}
+          >
+            Load Ignite Categories
+          </button>
+          <button
+            className="btn-primary"
+            onClick={createMissingCategories}
+            disabled={isBusy || !hasToken || unmappedCount === 0}
+          >
+            Create Missing Categories ({unmappedCount})
+          </button>
+        </div>
+
+        {status && <div className="rate-limit-info">{status}</div>}
+
+        <div className="form-row mapping-add-row">
+          <label htmlFor="mapping-folder-path">Folder Path</label>
+          <input
+            id="mapping-folder-path"
+            type="text"
+            placeholder="e.g., Marketing/Webinars"
+            value={newFolderPath}
+            onChange={(e) => setNewFolderPath(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addFolderPath()}
+          />
+          <button className="btn-secondary" onClick={addFolderPath}>
+            Add
+          </button>
+        </div>
+      </section>
+
+      {mappings.length === 0 ? (
+        <div className="browser-empty">
+          <p>No folders yet</p>
+          <span>
+            Fetch videos in the Video Browser or add a folder path above
+          </span>
+        </div>
+      ) : (
+        <div className="video-table-container">
+          <table className="video-table">
+            <thead>
+              <tr>
+                <th>Vimeo Folder</th>
+                <th>Folder ID</th>
+                <th>Ignite Category</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {mappings.map((mapping, index) => (
+                <tr key={mapping.folderId || mapping.folderPath}>
+                  <td>{mapping.folderPath}</td>
+                  <td className="mono">{mapping.folderId || '—'}</td>
+                  <td>
+                    {categories.length > 0 ? (
+                      <select
+                        value={mapping.categoryId}
+                        onChange={(e) => selectCategory(index, e.target.value)}
+                      >
+                        <option value="">— Not mapped —</option>
+                        {mapping.categoryId &&
+                          !categories.some(
+                            (c) => c.id === mapping.categoryId
+                          ) && (
+                            <option value={mapping.categoryId}>
+                              {mapping.categoryTitle || mapping.categoryId}
+                            </option>
+                          )}
+                        {categories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.title}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        placeholder="Category ID"
+                        value={mapping.categoryId}
+                        onChange={(e) =>
+                          updateMapping(index, {
+                            categoryId: e.target.value,
+                            categoryTitle: '',
+                          })
+                        }
+                      />
+                    )}
+                  </td>
+                  <td>
+                    <button
+                      className="btn-remove"
+                      onClick={() => removeMapping(index)}
+                      title="Remove"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  CsvQueueRow,
+  CsvRowOverrides,
+  parseQueueCSV,
+} from '../../lib/csvQueue';
+
+interface CsvQueueImportProps {
+  queuedVimeoIds: Set<string>;
+  onQueue: (rows: CsvQueueRow[]) => void;
+}
+
+// Short summary of a row's overrides for the preview table
+const describeOverrides = (overrides: CsvRowOverrides): string => {
+  const parts: string[] = [];
+  if (overrides.titleOverride) parts.push(`title: ${overrides.titleOverride}`);
+  if (overrides.descriptionOverride) parts.push('description');
+  if (overrides.tags) parts.push(`tags: ${overrides.tags}`);
+  if (overrides.categoryId) parts.push(`category: ${overrides.categoryId}`);
+  if (overrides.language) parts.push(`language: ${overrides.language}`);
+  if (overrides.visibility) parts.push(overrides.visibility);
+  if (overrides.autoTranscribe !== undefined) {
+    parts.push(`auto-transcribe: ${overrides.autoTranscribe ? 'on' : 'off'}`);
+  }
+  return parts.join(' · ');
+};
+
+export function CsvQueueImport({
+  queuedVimeoIds,
+  onQueue,
+}: CsvQueueImportProps) {
+  const [fileName, setFileName] = useState<string>('');
+  const [rows, setRows] = useState<CsvQueueRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = parseQueueCSV(await file.text(), queuedVimeoIds);
+    setRows(result.rows);
+    setFileError(result.fileError);
+  };
+
+  const reset = () => {
+    setFileName('');
+    setRows([]);
+    setFileError(null);
+  };
+
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const queueValidRows = () => {
+    if (validRows.length === 0) return;
+    onQueue(validRows);
+    reset();
+  };
+
+  return (
+    <div className="csv-import">
+      <div className="form-row">
+        <label htmlFor="csv-file">CSV File</label>
+        <input
+          id="csv-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+        />
+      </div>
+
+      {fileError && <div className="queue-item-error">{fileError}</div>}
+
+      {rows.length > 0 && (
+        <div className="csv-preview">
+          <div className="csv-preview-summary">
+            {fileName}: {validRows.length} valid
+            {invalidCount > 0 && `, ${invalidCount} with errors (skipped)`}
+          </div>
+          <div className="video-table-container">
+            <table className="video-table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Vimeo ID</th>
+                  <th>Title</th>
+                  <th>Overrides</th>
+                  <th>Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.rowNumber}
+                    className={row.errors.length > 0 ? 'plan-row-fail' : ''}
+                  >
+                    <td className="mono">{row.rowNumber}</td>
+                    <td className="mono">{row.vimeoId || '—'}</td>
+                    <td>{row.overrides.titleOverride || row.title || '—'}</td>
+                    <td>{describeOverrides(row.overrides) || '—'}</td>
+                    <td>{row.errors.join('; ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="actions">
+            <button
+              className="btn-primary"
+              onClick={queueValidRows}
+              disabled={validRows.length === 0}
+            >
+              Add {validRows.length} to Queue
+            </button>
+            <button className="btn-secondary" onClick={reset}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React from 'react';
+import { csvField, downloadFile } from '../../lib/csv';
+
+// Types
+export interface PlanRow {
+  vimeoId: string;
+  title: string | null;
+  status: 'ready' | 'fail';
+  reason: string | null; // Why the item would fail
+  rendition: string | null;
+  renditionReason: string | null;
+  size: number | null; // Bytes of the selected rendition
+  cors: 'success' | 'failure' | null;
+  visibility: string | null;
+  category: string | null;
+  textTracks: number;
+  payload: object | null; // Body that would be sent to create the video
+}
+
+export interface PlanProgress {
+  status: 'running' | 'complete';
+  done: number;
+  total: number;
+}
+
+interface MigrationPlanProps {
+  rows: PlanRow[];
+  progress: PlanProgress;
+  onClose: () => void;
+}
+
+// Format bytes to human readable
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+};
+
+export function MigrationPlan({ rows, progress, onClose }: MigrationPlanProps) {
+  const readyRows = rows.filter((r) => r.status === 'ready');
+  const failRows = rows.filter((r) => r.status === 'fail');
+  const totalSize = readyRows.reduce((sum, r) => sum + (r.size || 0), 0);
+  const dateStamp = new Date().toISOString().split('T')[0];
+
+  // Generate CSV content
+  const generateCSV = (): string => {
+    const headers = [
+      'Vimeo ID',
+      'Title',
+      'Status',
+      'Reason',
+      'Rendition',
+      'Rendition Reason',
+      'Size (MB)',
+      'CORS',
+      'Visibility',
+      'Category',
+      'Text Tracks',
+      'Payload',
+    ];
+    const lines = rows.map((r) =>
+      [
+        r.vimeoId,
+        r.title,
+        r.status,
+        r.reason,
+        r.rendition,
+        r.renditionReason,
+        r.size !== null ? (r.size / (1024 * 1024)).toFixed(2) : null,
+        r.cors,
+        r.visibility,
+        r.category,
+        r.textTracks,
+        r.payload ? JSON.stringify(r.payload) : null,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+
+    return [headers.join(','), ...lines].join('\n');
+  };
+
+  const downloadCSV = () =>
+    downloadFile(
+      generateCSV(),
+      'text/csv;charset=utf-8;',
+      `migration-plan-${dateStamp}.csv`
+    );
+
+  const downloadJSON = () =>
+    downloadFile(
+      JSON.stringify(rows, null, 2),
+      'application/json',
+      `migration-plan-${dateStamp}.json`
+    );
+
+  return (
+    <section className="section migration-plan">
+      <div className="migration-plan-header">
+        <h2 className="section-title">Migration Plan (Dry Run)</h2>
+        <div className="browser-actions">
+          <button
+            className="btn-secondary"
+            onClick={downloadCSV}
+            disabled={rows.length === 0}
+          >
+            Export CSV
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={downloadJSON}
+            disabled={rows.length === 0}
+          >
+            Export JSON
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={onClose}
+            disabled={progress.status === 'running'}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="browser-progress">
+        {progress.status === 'running' ? (
+          <div className="progress-info">
+            <span className="spinner"></span>
+            Planning... {progress.done} of {progress.total}
+          </div>
+        ) : (
+          <div className="progress-complete">
+            {readyRows.length} ready ({formatBytes(totalSize)}),{' '}
+            {failRows.length} would fail
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="video-table-container">
+          <table className="video-table">
+            <thead>
+              <tr>
+                <th>Vimeo ID</th>
+                <th>Title</th>
+                <th>Status</th>
+                <th>Rendition</th>
+                <th>Size</th>
+                <th>Visibility</th>
+                <th>Category</th>
+                <th>Metadata</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.vimeoId}
+                  className={row.status === 'fail' ? 'plan-row-fail' : ''}
+                >
+                  <td className="mono">{row.vimeoId}</td>
+                  <td>{row.title || '—'}</td>
+                  <td>
+                    {row.status === 'ready' ? 'Ready' : `Fail: ${row.reason}`}
+                  </td>
+                  <td title={row.renditionReason || undefined}>
+                    {row.rendition || '—'}
+                  </td>
+                  <td className="mono">
+                    {row.size !== null ? formatBytes(row.size) : '—'}
+                  </td>
+                  <td>{row.visibility || '—'}</td>
+                  <td>{row.category || '—'}</td>
+                  <td className="mono plan-payload">
+                    {row.payload ? JSON.stringify(row.payload) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
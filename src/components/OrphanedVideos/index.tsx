@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { createIgniteClient } from '../../lib/igniteApi';
+import {
+  fetchAllIgniteVimeoImports,
+  igniteAdminUrl,
+} from '../../lib/igniteLookup';
+import { OrphanedVideo, findOrphans } from '../../lib/orphans';
+
+const DEFAULT_MIN_AGE_HOURS = 24;
+
+interface OrphanedVideosProps {
+  igniteToken: string;
+  apiBase: string;
+  // Ignite videos the import queue is still working on (never listed)
+  activeIgniteIds: Set<string>;
+  // Queue the upload steps again for existing Ignite videos, returns how
+  // many were queued. Not set while another tab runs the queue.
+  onReattach?: (videos: OrphanedVideo[]) => number;
+}
+
+type ScanPhase = 'idle' | 'scanning' | 'ready' | 'working' | 'error';
+
+export function OrphanedVideos({
+  igniteToken,
+  apiBase,
+  activeIgniteIds,
+  onReattach,
+}: OrphanedVideosProps) {
+  const [orphans, setOrphans] = useState<OrphanedVideo[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [minAgeHours, setMinAgeHours] = useState<number>(DEFAULT_MIN_AGE_HOURS);
+  const [phase, setPhase] = useState<ScanPhase>('idle');
+  const [statusText, setStatusText] = useState<string>('');
+
+  const scan = async () => {
+    setPhase('scanning');
+    setOrphans([]);
+    setSelectedIds(new Set());
+    setStatusText('Loading Ignite videos...');
+
+    try {
+      const docs = await fetchAllIgniteVimeoImports(
+        apiBase,
+        igniteToken,
+        (loaded, total) =>
+          setStatusText(`Loading Ignite videos... ${loaded} of ${total}`)
+      );
+      const found = findOrphans(docs, { minAgeHours, activeIgniteIds });
+      setOrphans(found);
+      setStatusText(
+        `${found.length} orphaned video(s) among ${docs.length} imported`
+      );
+      setPhase('ready');
+    } catch (error: any) {
+      setStatusText(
+        `Error: ${
+          error.response?.data?.errors?.[0]?.message ||
+          error.message ||
+          'Failed to load Ignite videos'
+        }`
+      );
+      setPhase('error');
+    }
+  };
+
+  const toggle = (igniteId: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(igniteId)) {
+        next.delete(igniteId);
+      } else {
+        next.add(igniteId);
+      }
+      return next;
+    });
+
+  const selectedOrphans = orphans.filter((o) => selectedIds.has(o.igniteId));
+
+  const deleteSelected = async () => {
+    if (
+      !window.confirm(
+        `Delete ${selectedOrphans.length} video(s) from Ignite? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setPhase('working');
+    const ignite = createIgniteClient(apiBase, igniteToken);
+    const deleted: string[] = [];
+    const failed: string[] = [];
+    for (const orphan of selectedOrphans) {
+      setStatusText(
+        `Deleting ${deleted.length + failed.length + 1} of ${
+          selectedOrphans.length
+        }...`
+      );
+      try {
+        await ignite.deleteVideo(orphan.igniteId);
+        deleted.push(orphan.igniteId);
+      } catch (error) {
+        console.warn(`Failed to delete ${orphan.igniteId}:`, error);
+        failed.push(orphan.igniteId);
+      }
+    }
+
+    setOrphans((prev) => prev.filter((o) => !deleted.includes(o.igniteId)));
+    setSelectedIds(new Set(failed));
+    setStatusText(
+      `Deleted ${deleted.length} video(s)` +
+        (failed.length > 0 ? `, ${failed.length} failed (still selected)` : '')
+    );
+    setPhase('ready');
+  };
+
+  const reattachSelected = () => {
+    if (!onReattach) return;
+    const queued = onReattach(selectedOrphans);
+    const queuedIds = new Set(selectedOrphans.map((o) => o.igniteId));
+    setOrphans((prev) => prev.filter((o) => !queuedIds.has(o.igniteId)));
+    setSelectedIds(new Set());
+    setStatusText(
+      `Added ${queued} video(s) to the import queue to upload the file again`
+    );
+  };
+
+  const busy = phase === 'scanning' || phase === 'working';
+
+  return (
+    <section className="section orphaned-videos">
+      <div className="migration-plan-header">
+        <h2 className="section-title">Orphaned Videos</h2>
+        <div className="browser-actions">
+          <button
+            className="btn-secondary"
+            onClick={scan}
+            disabled={!igniteToken.trim() || busy}
+          >
+            Find Orphaned Videos
+          </button>
+          {onReattach && (
+            <button
+              className="btn-secondary"
+              onClick={reattachSelected}
+              disabled={busy || selectedOrphans.length === 0}
+            >
+              Reattach File ({selectedOrphans.length})
+            </button>
+          )}
+          <button
+            className="btn-danger"
+            onClick={deleteSelected}
+            disabled={busy || selectedOrphans.length === 0}
+          >
+            Delete ({selectedOrphans.length})
+          </button>
+        </div>
+      </div>
+      <p className="settings-hint">
+        Lists Ignite videos with a Vimeo ID that never got a file or never
+        finished encoding, for example after a failed import. They make later
+        imports of the same Vimeo video fail with "Already imported". "Reattach
+        File" queues the download and upload steps again for the existing video;
+        "Delete" removes it from Ignite.
+      </p>
+
+      <div className="form-row">
+        <label htmlFor="orphan-min-age">Minimum Age (hours)</label>
+        <input
+          id="orphan-min-age"
+          type="number"
+          min={0}
+          value={minAgeHours}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            if (value >= 0) setMinAgeHours(value);
+          }}
+        />
+      </div>
+
+      {statusText && (
+        <div className={phase === 'error' ? 'progress-error' : 'progress-info'}>
+          {busy && <span className="spinner"></span>}
+          {statusText}
+        </div>
+      )}
+
+      {orphans.length > 0 && (
+        <div className="video-table-container">
+          <table className="video-table">
+            <thead>
+              <tr>
+                <th className="select-cell">
+                  <input
+                    type="checkbox"
+                    checked={selectedOrphans.length === orphans.length}
+                    onChange={(e) =>
+                      setSelectedIds(
+                        e.target.checked
+                          ? new Set(orphans.map((o) => o.igniteId))
+                          : new Set()
+                      )
+                    }
+                  />
+                </th>
+                <th>Ignite ID</th>
+                <th>Vimeo ID</th>
+                <th>Title</th>
+                <th>Problem</th>
+                <th>Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {orphans.map((orphan) => (
+                <tr key={orphan.igniteId}>
+                  <td className="select-cell">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(orphan.igniteId)}
+                      onChange={() => toggle(orphan.igniteId)}
+                    />
+                  </td>
+                  <td className="mono">
+                    <a
+                      href={igniteAdminUrl(apiBase, orphan.igniteId)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {orphan.igniteId}
+                    </a>
+                  </td>
+                  <td className="mono">{orphan.vimeoId}</td>
+                  <td>{orphan.title}</td>
+                  <td>{orphan.reason}</td>
+                  <td className="mono">
+                    {orphan.createdAt
+                      ? new Date(orphan.createdAt).toLocaleString()
+                      : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { downloadFile, toCSV } from '../../lib/csv';
+import { fetchAllIgniteVimeoImports } from '../../lib/igniteLookup';
+import {
+  ReconcileVimeoVideo,
+  ReconciliationReport as Report,
+  reconcile,
+} from '../../lib/reconciliation';
+
+// Rows shown per section; the CSV export always contains all rows
+const MAX_VISIBLE_ROWS = 500;
+
+interface ReconciliationReportProps {
+  vimeoVideos: ReconcileVimeoVideo[];
+  igniteToken: string;
+  apiBase: string;
+}
+
+interface ReportProgress {
+  status: 'idle' | 'loading' | 'complete' | 'error';
+  loaded: number;
+  total: number;
+  errorMessage: string | null;
+}
+
+export function ReconciliationReport({
+  vimeoVideos,
+  igniteToken,
+  apiBase,
+}: ReconciliationReportProps) {
+  const [report, setReport] = useState<Report | null>(null);
+  const [progress, setProgress] = useState<ReportProgress>({
+    status: 'idle',
+    loaded: 0,
+    total: 0,
+    errorMessage: null,
+  });
+
+  const runReport = async () => {
+    setReport(null);
+    setProgress({ status: 'loading', loaded: 0, total: 0, errorMessage: null });
+
+    try {
+      const igniteDocs = await fetchAllIgniteVimeoImports(
+        apiBase,
+        igniteToken,
+        (loaded, total) => setProgress((prev) => ({ ...prev, loaded, total }))
+      );
+      setReport(reconcile(vimeoVideos, igniteDocs));
+      setProgress((prev) => ({ ...prev, status: 'complete' }));
+    } catch (error: any) {
+      const errorMessage =
+        error.response?.data?.errors?.[0]?.message ||
+        error.response?.data?.message ||
+        error.message ||
+        'Failed to load Ignite videos';
+      setProgress((prev) => ({
+        ...prev,
+        status: 'error',
+        errorMessage: `Error: ${errorMessage}`,
+      }));
+    }
+  };
+
+  const dateStamp = new Date().toISOString().split('T')[0];
+
+  return (
+    <section className="section reconciliation">
+      <div className="migration-plan-header">
+        <h2 className="section-title">Reconciliation</h2>
+        <button
+          className="btn-secondary"
+          onClick={runReport}
+          disabled={progress.status === 'loading' || !igniteToken.trim()}
+        >
+          {progress.status === 'loading'
+            ? 'Comparing...'
+            : 'Compare with Ignite'}
+        </button>
+      </div>
+      <p className="settings-hint">
+        Compares the {vimeoVideos.length} Vimeo videos fetched above with every
+        Ignite video that has a Vimeo ID. "Deleted on Vimeo" is only reliable
+        when the whole library (or team library) was fetched.
+      </p>
+
+      {progress.status === 'loading' && (
+        <div className="progress-info">
+          <span className="spinner"></span>
+          Loading Ignite videos... {progress.loaded} of {progress.total || '?'}
+        </div>
+      )}
+      {progress.status === 'error' && (
+        <div className="progress-error">{progress.errorMessage}</div>
+      )}
+
+      {report && (
+        <>
+          <div className="progress-complete">
+            {report.vimeoCount} Vimeo videos, {report.igniteCount} Ignite videos
+            with a Vimeo ID
+          </div>
+
+          <ReportSection
+            title="Missing in Ignite"
+            filename={`reconciliation-missing-${dateStamp}.csv`}
+            headers={['Vimeo ID', 'Title', 'Folder Path']}
+            rows={report.missingInIgnite.map((v) => [
+              v.vimeoId,
+              v.title,
+              v.folderPath,
+            ])}
+          />
+          <ReportSection
+            title="Deleted on Vimeo"
+            filename={`reconciliation-deleted-${dateStamp}.csv`}
+            headers={['Vimeo ID', 'Ignite ID', 'Ignite Title']}
+            rows={report.deletedOnVimeo.map((doc) => [
+              doc.customMetadata?.vimeoId || null,
+              doc.id,
+              doc.title,
+            ])}
+          />
+          <ReportSection
+            title="Imported More Than Once"
+            filename={`reconciliation-duplicates-${dateStamp}.csv`}
+            headers={['Vimeo ID', 'Title', 'Count', 'Ignite IDs']}
+            rows={report.duplicates.map((d) => [
+              d.vimeoId,
+              d.title,
+              d.igniteIds.length,
+              d.igniteIds.join(' '),
+            ])}
+          />
+          <ReportSection
+            title="Title or Duration Mismatch"
+            filename={`reconciliation-mismatches-${dateStamp}.csv`}
+            headers={[
+              'Vimeo ID',
+              'Ignite ID',
+              'Field',
+              'Vimeo Value',
+              'Ignite Value',
+            ]}
+            rows={report.mismatches.map((m) => [
+              m.vimeoId,
+              m.igniteId,
+              m.field,
+              m.vimeoValue,
+              m.igniteValue,
+            ])}
+          />
+        </>
+      )}
+    </section>
+  );
+}
+
+// One report section: table plus CSV export
+interface ReportSectionProps {
+  title: string;
+  filename: string;
+  headers: string[];
+  rows: Array<Array<string | number | null>>;
+}
+
+function ReportSection({ title, filename, headers, rows }: ReportSectionProps) {
+  const exportCSV = () =>
+    downloadFile(toCSV(headers, rows), 'text/csv;charset=utf-8;', filename);
+
+  return (
+    <div className="reconciliation-section">
+      <div className="migration-plan-header">
+        <h3>
+          {title} <span className="folder-count">{rows.length}</span>
+        </h3>
+        <button
+          className="btn-secondary"
+          onClick={exportCSV}
+          disabled={rows.length === 0}
+        >
+          Export CSV
+        </button>
+      </div>
+      {rows.length > 0 && (
+        <div className="video-table-container">
+          <table className="video-table">
+            <thead>
+              <tr>
+                {headers.map((h) => (
+                  <th key={h}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, MAX_VISIBLE_ROWS).map((row, index) => (
+                <tr key={index}>
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex}>{cell ?? '—'}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {rows.length > MAX_VISIBLE_ROWS && (
+        <p className="settings-hint">
+          Showing {MAX_VISIBLE_ROWS} of {rows.length} rows. Export the CSV for
+          the full list.
+        </p>
+      )}
+    </div>
+  );
+}
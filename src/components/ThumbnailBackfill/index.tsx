@@ -0,0 +1,256 @@
+import React, { useRef, useState } from 'react';
+import axios from 'axios';
+import {
+  fetchAllIgniteVimeoImports,
+  igniteAdminUrl,
+  isEncoded,
+} from '../../lib/igniteLookup';
+import { createIgniteClient } from '../../lib/igniteApi';
+import { largestPictureUrl } from '../../lib/thumbnails';
+import { createVimeoClient } from '../../lib/vimeoApi';
+
+// Types
+interface BackfillRow {
+  igniteId: string;
+  vimeoId: string;
+  title: string;
+  status: 'pending' | 'done' | 'skipped' | 'failed';
+  message: string | null;
+}
+
+type BackfillPhase = 'idle' | 'scanning' | 'ready' | 'running' | 'error';
+
+interface ThumbnailBackfillProps {
+  vimeoToken: string;
+  igniteToken: string;
+  apiBase: string;
+}
+
+export function ThumbnailBackfill({
+  vimeoToken,
+  igniteToken,
+  apiBase,
+}: ThumbnailBackfillProps) {
+  const [rows, setRows] = useState<BackfillRow[]>([]);
+  const [phase, setPhase] = useState<BackfillPhase>('idle');
+  const [statusText, setStatusText] = useState<string>('');
+  const [customOnly, setCustomOnly] = useState<boolean>(true);
+  const stopRequested = useRef<boolean>(false);
+
+  const updateRow = (igniteId: string, patch: Partial<BackfillRow>) =>
+    setRows((prev) =>
+      prev.map((row) =>
+        row.igniteId === igniteId ? { ...row, ...patch } : row
+      )
+    );
+
+  // Find encoded Ignite videos from Vimeo that have no custom thumbnail
+  const scan = async () => {
+    setPhase('scanning');
+    setRows([]);
+    setStatusText('Loading Ignite videos...');
+
+    try {
+      const docs = await fetchAllIgniteVimeoImports(
+        apiBase,
+        igniteToken,
+        (loaded, total) =>
+          setStatusText(`Loading Ignite videos... ${loaded} of ${total}`)
+      );
+      const missing = docs.filter((doc) => !doc.customThumbnailUrl);
+      const encoded = missing.filter(isEncoded);
+
+      setRows(
+        encoded.map((doc) => ({
+          igniteId: doc.id,
+          vimeoId: doc.customMetadata?.vimeoId || '',
+          title: doc.title,
+          status: 'pending',
+          message: null,
+        }))
+      );
+      setStatusText(
+        `${encoded.length} video(s) without a custom thumbnail` +
+          (missing.length > encoded.length
+            ? ` (${missing.length - encoded.length} not encoded yet, left out)`
+            : '')
+      );
+      setPhase('ready');
+    } catch (error: any) {
+      setStatusText(
+        `Error: ${
+          error.response?.data?.errors?.[0]?.message ||
+          error.message ||
+          'Failed to load Ignite videos'
+        }`
+      );
+      setPhase('error');
+    }
+  };
+
+  // Transfer the Vimeo picture of every pending row, one at a time
+  const run = async () => {
+    stopRequested.current = false;
+    setPhase('running');
+    // Rate limits are waited out by the shared Vimeo scheduler
+    const vimeo = createVimeoClient(vimeoToken);
+    const ignite = createIgniteClient(apiBase, igniteToken);
+
+    const pending = rows.filter((row) => row.status === 'pending');
+    for (let i = 0; i < pending.length; i++) {
+      if (stopRequested.current) break;
+      const row = pending[i];
+      setStatusText(`Transferring ${i + 1} of ${pending.length}...`);
+
+      try {
+        const pictures = await vimeo.getVideoPictures(row.vimeoId);
+        if (customOnly && pictures?.type !== 'custom') {
+          updateRow(row.igniteId, {
+            status: 'skipped',
+            message: 'No custom Vimeo thumbnail',
+          });
+          continue;
+        }
+
+        const pictureUrl = largestPictureUrl(pictures);
+        if (!pictureUrl) {
+          updateRow(row.igniteId, {
+            status: 'skipped',
+            message: 'No active Vimeo thumbnail',
+          });
+          continue;
+        }
+
+        const pictureResponse = await axios.get(pictureUrl, {
+          responseType: 'blob',
+        });
+        await ignite.uploadThumbnail(
+          row.igniteId,
+          pictureResponse.data as Blob
+        );
+        updateRow(row.igniteId, { status: 'done', message: null });
+      } catch (error: any) {
+        updateRow(row.igniteId, {
+          status: 'failed',
+          message:
+            error.response?.data?.errors?.[0]?.message ||
+            error.response?.data?.error ||
+            error.message ||
+            'Transfer failed',
+        });
+      }
+    }
+
+    setStatusText(stopRequested.current ? 'Stopped' : 'Backfill finished');
+    setPhase('ready');
+  };
+
+  const stop = () => {
+    stopRequested.current = true;
+  };
+
+  const count = (status: BackfillRow['status']) =>
+    rows.filter((row) => row.status === status).length;
+  const pendingCount = count('pending');
+  const canStart = vimeoToken.trim() && igniteToken.trim();
+
+  return (
+    <section className="section thumbnail-backfill">
+      <div className="migration-plan-header">
+        <h2 className="section-title">Thumbnail Backfill</h2>
+        <div className="browser-actions">
+          <button
+            className="btn-secondary"
+            onClick={scan}
+            disabled={!canStart || phase === 'scanning' || phase === 'running'}
+          >
+            Find Videos Without Thumbnail
+          </button>
+          {phase === 'running' ? (
+            <button className="btn-secondary" onClick={stop}>
+              Stop
+            </button>
+          ) : (
+            <button
+              className="btn-primary"
+              onClick={run}
+              disabled={!canStart || phase !== 'ready' || pendingCount === 0}
+            >
+              Transfer {pendingCount} Thumbnail(s)
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="settings-hint">
+        Finds imported Ignite videos that are encoded but have no custom
+        thumbnail, and uploads the Vimeo picture of each one. Use this for items
+        that ended as "Complete (thumbnail failed)".
+      </p>
+
+      <div className="checkbox-row">
+        <input
+          id="backfill-custom-only"
+          type="checkbox"
+          checked={customOnly}
+          onChange={(e) => setCustomOnly(e.target.checked)}
+          disabled={phase === 'running'}
+        />
+        <label htmlFor="backfill-custom-only">
+          Only custom Vimeo thumbnails (skip generated frames)
+        </label>
+      </div>
+
+      {statusText && (
+        <div className={phase === 'error' ? 'progress-error' : 'progress-info'}>
+          {(phase === 'scanning' || phase === 'running') && (
+            <span className="spinner"></span>
+          )}
+          {statusText}
+          {rows.length > 0 &&
+            ` · ${count('done')} done, ${count('skipped')} skipped, ${count(
+              'failed'
+            )} failed`}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="video-table-container">
+          <table className="video-table">
+            <thead>
+              <tr>
+                <th>Ignite ID</th>
+                <th>Vimeo ID</th>
+                <th>Title</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.igniteId}
+                  className={row.status === 'failed' ? 'plan-row-fail' : ''}
+                >
+                  <td className="mono">
+                    <a
+                      href={igniteAdminUrl(apiBase, row.igniteId)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {row.igniteId}
+                    </a>
+                  </td>
+                  <td className="mono">{row.vimeoId}</td>
+                  <td>{row.title}</td>
+                  <td>
+                    {row.status}
+                    {row.message && `: ${row.message}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,27 +1,36 @@
-import React, { useState, useCallback, useRef } from 'react';
-import axios, { AxiosResponse, AxiosError } from 'axios';
-
-// Rate limiting configuration
-const REQUEST_DELAY_MS = 500; // Delay between requests to avoid hitting rate limits
-const MAX_RETRIES = 5;
-const INITIAL_RETRY_DELAY_MS = 2000;
-
-// Helper to delay execution
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { downloadFile, toCSV } from '../../lib/csv';
+import {
+  VimeoFolderInfo,
+  VimeoParentFolder,
+  resolveFolderInfo,
+} from '../../lib/folders';
+import { IgniteVideoDoc } from '../../lib/igniteApi';
+import {
+  fetchIgniteVideosByVimeoIds,
+  igniteAdminUrl,
+} from '../../lib/igniteLookup';
+import {
+  VimeoRateLimitStatus,
+  createVimeoClient,
+  subscribeVimeoRateLimit,
+} from '../../lib/vimeoApi';
+import { ReconciliationReport } from '../ReconciliationReport';
+
+// Shared Vimeo rate-limit budget as shown during a scan
+const describeRateLimit = (status: VimeoRateLimitStatus): string => {
+  if (status.waitingUntil && status.waitingUntil > Date.now()) {
+    return `Rate limit reached. Waiting ${Math.ceil(
+      (status.waitingUntil - Date.now()) / 1000
+    )}s...`;
+  }
+  if (status.remaining !== null && status.limit !== null) {
+    return `API: ${status.remaining}/${status.limit} requests remaining`;
+  }
+  return '';
+};
 
 // Types
-interface VimeoPaginatedResponse<T> {
-  total: number;
-  page: number;
-  per_page: number;
-  data: T[];
-  paging?: {
-    next: string | null;
-    previous: string | null;
-    last: string | null;
-  };
-}
-
 interface VimeoFolder {
   uri: string;
   name: string;
@@ -33,6 +42,7 @@ interface VimeoVideoRaw {
   uri: string;
   name: string;
   type: string; // "video" for VOD, "live" for live events
+  duration?: number; // Seconds
   download?: Array<{
     quality: string;
     rendition: string;
@@ -40,18 +50,7 @@ interface VimeoVideoRaw {
     width: number;
     height: number;
   }>;
-  parent_folder?: {
-    uri: string;
-    name: string;
-    metadata?: {
-      connections?: {
-        ancestor_path?: Array<{
-          uri: string;
-          name: string;
-        }>;
-      };
-    };
-  } | null;
+  parent_folder?: VimeoParentFolder | null;
 }
 
 interface VimeoVideoInfo {
@@ -61,6 +60,7 @@ interface VimeoVideoInfo {
   folderName: string | null;
   folderPath: string | null; // Full path like "Root/Parent/Child"
   fileSize: number | null; // Size in bytes of largest download
+  duration: number | null; // Seconds
 }
 
 interface FetchProgress {
@@ -73,11 +73,38 @@ interface FetchProgress {
 
 type ViewMode = 'flat' | 'grouped';
 
+interface IgniteStatusProgress {
+  status: 'idle' | 'loading' | 'complete' | 'error';
+  done: number;
+  total: number;
+  errorMessage: string | null;
+}
+
+// Selected video handed to the import queue
+export interface QueueableVideo {
+  vimeoId: string;
+  title: string;
+  folder: VimeoFolderInfo | null;
+}
+
 interface VideoBrowserProps {
   vimeoToken: string;
+  // Used to look up which videos are already in Ignite
+  igniteToken?: string;
+  apiBase?: string;
+  // Called with every folder found once a full scan completes
+  onFoldersLoaded?: (folders: VimeoFolderInfo[]) => void;
+  // Adds the selected videos to the import queue, returns how many were added
+  onAddToQueue?: (videos: QueueableVideo[]) => number;
 }
 
-export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
+export function VideoBrowser({
+  vimeoToken,
+  igniteToken = '',
+  apiBase = '',
+  onFoldersLoaded,
+  onAddToQueue,
+}: VideoBrowserProps) {
   const [videos, setVideos] = useState<VimeoVideoInfo[]>([]);
   const [folders, setFolders] = useState<
     Map<string, { name: string; path: string }>
@@ -91,83 +118,37 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
   });
   const [viewMode, setViewMode] = useState<ViewMode>('grouped');
 
+  // Selection for the import queue
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<string>('');
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+
+  // Ignite import status per Vimeo ID (null until looked up)
+  const [igniteStatus, setIgniteStatus] = useState<Map<
+    string,
+    IgniteVideoDoc[]
+  > | null>(null);
+  const [igniteProgress, setIgniteProgress] = useState<IgniteStatusProgress>({
+    status: 'idle',
+    done: 0,
+    total: 0,
+    errorMessage: null,
+  });
+
   // Team library support - optional user ID to fetch from (e.g., team owner)
   const [teamOwnerId, setTeamOwnerId] = useState<string>('');
 
-  // Rate limit tracking
+  // Rate limit tracking (shared with the importer)
   const [rateLimitInfo, setRateLimitInfo] = useState<string>('');
-  const lastRequestTime = useRef<number>(0);
-
-  // Rate-limited API request helper with retry logic
-  const rateLimitedRequest = async <T,>(
-    url: string
-  ): Promise<AxiosResponse<T>> => {
-    // Ensure minimum delay between requests
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastRequestTime.current;
-    if (timeSinceLastRequest < REQUEST_DELAY_MS) {
-      await delay(REQUEST_DELAY_MS - timeSinceLastRequest);
-    }
-
-    let retries = 0;
-    let retryDelay = INITIAL_RETRY_DELAY_MS;
-
-    while (true) {
-      try {
-        lastRequestTime.current = Date.now();
-        const response = await axios.get<T>(url, {
-          headers: { Authorization: `Bearer ${vimeoToken}` },
-        });
-
-        // Update rate limit info from headers
-        const remaining = response.headers['x-ratelimit-remaining'];
-        const limit = response.headers['x-ratelimit-limit'];
-        if (remaining && limit) {
-          setRateLimitInfo(`API: ${remaining}/${limit} requests remaining`);
-        }
-
-        return response;
-      } catch (error) {
-        const axiosError = error as AxiosError;
-
-        // Check if it's a rate limit error (429)
-        if (axiosError.response?.status === 429) {
-          retries++;
-          if (retries > MAX_RETRIES) {
-            throw new Error(
-              'Rate limit exceeded. Please wait a few minutes and try again.'
-            );
-          }
-
-          // Get retry delay from header or use exponential backoff
-          const retryAfter = axiosError.response.headers['retry-after'];
-          const waitTime = retryAfter
-            ? parseInt(retryAfter, 10) * 1000
-            : retryDelay;
-
-          setRateLimitInfo(
-            `Rate limited. Waiting ${Math.ceil(
-              waitTime / 1000
-            )}s before retry ${retries}/${MAX_RETRIES}...`
-          );
-          await delay(waitTime);
-          retryDelay *= 2; // Exponential backoff
-          continue;
-        }
-
-        // Re-throw other errors
-        throw error;
-      }
-    }
-  };
+  useEffect(
+    () =>
+      subscribeVimeoRateLimit((status) =>
+        setRateLimitInfo(describeRateLimit(status))
+      ),
+    []
+  );
 
-  // Get the base path for API calls (use team owner if specified, otherwise /me)
-  const getBasePath = () => {
-    if (teamOwnerId.trim()) {
-      return `https://api.vimeo.com/users/${teamOwnerId.trim()}`;
-    }
-    return 'https://api.vimeo.com/me';
-  };
+  const vimeo = useMemo(() => createVimeoClient(vimeoToken), [vimeoToken]);
 
   // Calculate total pages from total count and per_page
   const calculateTotalPages = (total: number, perPage: number): number => {
@@ -180,11 +161,43 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
     return match ? match[1] : uri;
   };
 
-  // Extract folder ID from URI (e.g., "/users/123/projects/456" -> "456")
-  const extractFolderId = (uri: string): string => {
-    const match = uri.match(/\/projects\/(\d+)/);
-    return match ? match[1] : uri;
-  };
+  // Look up which videos already exist in Ignite (bulk, paged queries)
+  const loadIgniteStatus = useCallback(
+    async (vimeoIds: string[]) => {
+      if (!igniteToken.trim() || !apiBase || vimeoIds.length === 0) return;
+
+      setIgniteProgress({
+        status: 'loading',
+        done: 0,
+        total: vimeoIds.length,
+        errorMessage: null,
+      });
+
+      try {
+        const status = await fetchIgniteVideosByVimeoIds(
+          apiBase,
+          igniteToken,
+          vimeoIds,
+          (done, total) =>
+            setIgniteProgress((prev) => ({ ...prev, done, total }))
+        );
+        setIgniteStatus(status);
+        setIgniteProgress((prev) => ({ ...prev, status: 'complete' }));
+      } catch (error: any) {
+        const errorMessage =
+          error.response?.data?.errors?.[0]?.message ||
+          error.response?.data?.message ||
+          error.message ||
+          'Failed to load Ignite status';
+        setIgniteProgress((prev) => ({
+          ...prev,
+          status: 'error',
+          errorMessage: `Ignite status: ${errorMessage}`,
+        }));
+      }
+    },
+    [igniteToken, apiBase]
+  );
 
   // Main fetch function - fetches all videos directly with pagination
   const fetchAllData = useCallback(async () => {
@@ -200,6 +213,9 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
 
     setVideos([]);
     setFolders(new Map());
+    setSelectedIds(new Set());
+    setQueueNotice(null);
+    setIgniteStatus(null);
     setProgress({
       status: 'fetching',
       currentPage: 0,
@@ -209,116 +225,97 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
     });
 
     try {
-      const basePath = getBasePath();
       const allVideoInfos: VimeoVideoInfo[] = [];
       const folderMap = new Map<string, { name: string; path: string }>();
-      let currentPage = 1;
       let totalPages = 1;
-      let nextUrl: string | null = `${basePath}/videos?per_page=100`;
 
-      while (nextUrl) {
-        const response: AxiosResponse<VimeoPaginatedResponse<VimeoVideoRaw>> =
-          await rateLimitedRequest<VimeoPaginatedResponse<VimeoVideoRaw>>(
-            nextUrl
-          );
+      // Team owner's library if specified, otherwise /me
+      await vimeo.forEachVideoPage<VimeoVideoRaw>(
+        teamOwnerId.trim() || null,
+        (data, currentPage) => {
+          // Update total pages on first request
+          if (currentPage === 1) {
+            totalPages = calculateTotalPages(data.total, data.per_page);
+            setProgress((prev) => ({
+              ...prev,
+              totalPages,
+              totalVideos: data.total,
+            }));
+          }
 
-        const data = response.data;
+          // Process videos (filter out live events, only include VOD)
+          if (data.data) {
+            for (const video of data.data) {
+              // Skip live events - only include regular videos
+              if (video.type !== 'video') {
+                continue;
+              }
 
-        // Update total pages on first request
-        if (currentPage === 1) {
-          totalPages = calculateTotalPages(data.total, 100);
-          setProgress((prev) => ({
-            ...prev,
-            totalPages,
-            totalVideos: data.total,
-          }));
-        }
+              const videoId = extractVideoId(video.uri);
 
-        // Process videos (filter out live events, only include VOD)
-        if (data.data) {
-          for (const video of data.data) {
-            // Skip live events - only include regular videos
-            if (video.type !== 'video') {
-              continue;
-            }
+              // Extract folder info (ID, name, full path) from parent_folder
+              const { folderId, folderName, folderPath } = resolveFolderInfo(
+                video.parent_folder
+              );
 
-            const videoId = extractVideoId(video.uri);
-            let folderId: string | null = null;
-            let folderName: string | null = null;
-            let folderPath: string | null = null;
-
-            // Extract folder info from parent_folder if present
-            if (video.parent_folder) {
-              folderId = extractFolderId(video.parent_folder.uri);
-              folderName = video.parent_folder.name;
-
-              // Build folder path from ancestor_path (reverse order: root first)
-              const ancestorPath =
-                video.parent_folder.metadata?.connections?.ancestor_path;
-              if (ancestorPath && ancestorPath.length > 0) {
-                // ancestor_path is ordered from immediate parent to root, so reverse it
-                const pathParts = [...ancestorPath]
-                  .reverse()
-                  .map((a) => a.name);
-                // Add the current folder name at the end
-                pathParts.push(folderName);
-                folderPath = pathParts.join('/');
-              } else {
-                // No ancestors, just use the folder name
-                folderPath = folderName;
+              // Add to folder map for grouping (with path)
+              if (folderId && folderName && !folderMap.has(folderId)) {
+                folderMap.set(folderId, {
+                  name: folderName,
+                  path: folderPath || folderName,
+                });
               }
 
-              // Add to folder map for grouping (with path)
-              if (!folderMap.has(folderId)) {
-                folderMap.set(folderId, { name: folderName, path: folderPath });
+              // Get file size from largest download (excluding 'source')
+              let fileSize: number | null = null;
+              if (video.download && video.download.length > 0) {
+                const largestDownload = video.download
+                  .filter((d) => d.rendition !== 'source')
+                  .reduce(
+                    (largest, current) =>
+                      current.size > largest.size ? current : largest,
+                    video.download[0]
+                  );
+                fileSize = largestDownload.size;
               }
-            }
 
-            // Get file size from largest download (excluding 'source')
-            let fileSize: number | null = null;
-            if (video.download && video.download.length > 0) {
-              const largestDownload = video.download
-                .filter((d) => d.rendition !== 'source')
-                .reduce(
-                  (largest, current) =>
-                    current.size > largest.size ? current : largest,
-                  video.download[0]
-                );
-              fileSize = largestDownload.size;
+              allVideoInfos.push({
+                vimeoId: videoId,
+                title: video.name,
+                folderId,
+                folderName,
+                folderPath,
+                fileSize,
+                duration: video.duration ?? null,
+              });
             }
-
-            allVideoInfos.push({
-              vimeoId: videoId,
-              title: video.name,
-              folderId,
-              folderName,
-              folderPath,
-              fileSize,
-            });
           }
-        }
-
-        setProgress((prev) => ({
-          ...prev,
-          currentPage,
-          totalVideos: allVideoInfos.length,
-        }));
 
-        // Move to next page
-        nextUrl = data.paging?.next
-          ? `https://api.vimeo.com${data.paging.next}`
-          : null;
-        currentPage++;
-      }
+          setProgress((prev) => ({
+            ...prev,
+            currentPage,
+            totalVideos: allVideoInfos.length,
+          }));
+        }
+      );
 
       setFolders(folderMap);
       setVideos(allVideoInfos);
+      onFoldersLoaded?.(
+        Array.from(folderMap.entries()).map(([id, folder]) => ({
+          folderId: id,
+          folderName: folder.name,
+          folderPath: folder.path,
+        }))
+      );
       setProgress((prev) => ({
         ...prev,
         status: 'complete',
         currentPage: totalPages,
         totalVideos: allVideoInfos.length,
       }));
+
+      await loadIgniteStatus(allVideoInfos.map((v) => v.vimeoId));
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.error ||
@@ -331,15 +328,15 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
         errorMessage: `Error: ${errorMessage}`,
       }));
     }
-  }, [vimeoToken, teamOwnerId]);
+  }, [vimeo, vimeoToken, teamOwnerId, onFoldersLoaded, loadIgniteStatus]);
 
   // Convert bytes to megabytes (as number for sorting)
   const bytesToMB = (bytes: number): string => {
     return (bytes / (1024 * 1024)).toFixed(2);
   };
 
-  // Generate CSV content
-  const generateCSV = (): string => {
+  // Download CSV file
+  const downloadCSV = () => {
     const headers = [
       'Vimeo ID',
       'Title',
@@ -350,58 +347,32 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
     ];
     const rows = videos.map((v) => [
       v.vimeoId,
-      `"${v.title.replace(/"/g, '""')}"`, // Escape quotes in title
-      v.folderId || '',
-      v.folderName ? `"${v.folderName.replace(/"/g, '""')}"` : '',
-      v.folderPath ? `"${v.folderPath.replace(/"/g, '""')}"` : '',
-      v.fileSize ? bytesToMB(v.fileSize) : '',
+      v.title,
+      v.folderId,
+      v.folderName,
+      v.folderPath,
+      v.fileSize ? bytesToMB(v.fileSize) : null,
     ]);
-
-    return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-  };
-
-  // Download CSV file
-  const downloadCSV = () => {
-    const csv = generateCSV();
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `vimeo-videos-${
-      new Date().toISOString().split('T')[0]
-    }.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      toCSV(headers, rows),
+      'text/csv;charset=utf-8;',
+      `vimeo-videos-${new Date().toISOString().split('T')[0]}.csv`
+    );
   };
 
-  // Generate Folders CSV content
-  const generateFoldersCSV = (): string => {
+  // Download Folders CSV file
+  const downloadFoldersCSV = () => {
     const headers = ['Folder ID', 'Folder Name', 'Folder Path'];
     const rows = Array.from(folders.entries()).map(([id, folder]) => [
       id,
-      `"${folder.name.replace(/"/g, '""')}"`, // Escape quotes in name
-      `"${folder.path.replace(/"/g, '""')}"`, // Escape quotes in path
+      folder.name,
+      folder.path,
     ]);
-
-    return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-  };
-
-  // Download Folders CSV file
-  const downloadFoldersCSV = () => {
-    const csv = generateFoldersCSV();
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `vimeo-folders-${
-      new Date().toISOString().split('T')[0]
-    }.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      toCSV(headers, rows),
+      'text/csv;charset=utf-8;',
+      `vimeo-folders-${new Date().toISOString().split('T')[0]}.csv`
+    );
   };
 
   // Group videos by folder for grouped view
@@ -424,6 +395,67 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
     return groups;
   }, [videos, folders]);
 
+  // Videos matching the filter (title, ID or folder path)
+  const filteredVideos = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return videos;
+    return videos.filter(
+      (v) =>
+        v.title.toLowerCase().includes(query) ||
+        v.vimeoId.includes(query) ||
+        (v.folderPath || '').toLowerCase().includes(query)
+    );
+  }, [videos, filter]);
+
+  // Select or deselect a set of videos
+  const toggleVideos = (ids: string[], selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const filteredIds = useMemo(
+    () => new Set(filteredVideos.map((v) => v.vimeoId)),
+    [filteredVideos]
+  );
+
+  const selectAllMatching = () =>
+    toggleVideos(
+      filteredVideos.map((v) => v.vimeoId),
+      true
+    );
+
+  const clearSelection = () => setSelectedIds(new Set());
+
+  // Send the selected videos (with their folder) to the import queue
+  const addSelectedToQueue = () => {
+    if (!onAddToQueue || selectedIds.size === 0) return;
+
+    const selected: QueueableVideo[] = videos
+      .filter((v) => selectedIds.has(v.vimeoId))
+      .map((v) => ({
+        vimeoId: v.vimeoId,
+        title: v.title,
+        folder: v.folderId
+          ? {
+              folderId: v.folderId,
+              folderName: v.folderName,
+              folderPath: v.folderPath,
+            }
+          : null,
+      }));
+
+    const added = onAddToQueue(selected);
+    const skipped = selected.length - added;
+    setQueueNotice(
+      `Added ${added} video${added === 1 ? '' : 's'} to the import queue` +
+        (skipped > 0 ? ` (${skipped} already queued)` : '')
+    );
+    setSelectedIds(new Set());
+  };
+
   const isFetching = progress.status === 'fetching';
 
   return (
@@ -469,6 +501,15 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
               Download Folders CSV
             </button>
           )}
+          {videos.length > 0 && igniteToken.trim() && (
+            <button
+              className="btn-secondary"
+              onClick={() => loadIgniteStatus(videos.map((v) => v.vimeoId))}
+              disabled={igniteProgress.status === 'loading'}
+            >
+              Refresh Ignite Status
+            </button>
+          )}
         </div>
 
         {videos.length > 0 && (
@@ -512,6 +553,58 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
           {rateLimitInfo && progress.status === 'fetching' && (
             <div className="rate-limit-info">{rateLimitInfo}</div>
           )}
+          {igniteProgress.status === 'loading' && (
+            <div className="progress-info">
+              <span className="spinner"></span>
+              Checking Ignite... {igniteProgress.done} of {igniteProgress.total}
+            </div>
+          )}
+          {igniteProgress.status === 'complete' && igniteStatus && (
+            <div className="progress-complete">
+              {videos.filter((v) => igniteStatus.has(v.vimeoId)).length} of{' '}
+              {videos.length} videos already in Ignite
+            </div>
+          )}
+          {igniteProgress.status === 'error' && (
+            <div className="progress-error">{igniteProgress.errorMessage}</div>
+          )}
+        </div>
+      )}
+
+      {/* Filter & Selection */}
+      {videos.length > 0 && (
+        <div className="browser-selection">
+          <input
+            type="text"
+            className="browser-filter"
+            placeholder="Filter by title, ID or folder path"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <div className="browser-actions">
+            <button className="btn-secondary" onClick={selectAllMatching}>
+              Select All Matching ({filteredVideos.length})
+            </button>
+            <button
+              className="btn-secondary"
+              onClick={clearSelection}
+              disabled={selectedIds.size === 0}
+            >
+              Clear Selection
+            </button>
+            {onAddToQueue && (
+              <button
+                className="btn-primary"
+                onClick={addSelectedToQueue}
+                disabled={selectedIds.size === 0}
+              >
+                Add to Import Queue ({selectedIds.size})
+              </button>
+            )}
+          </div>
+          {queueNotice && (
+            <div className="browser-queue-notice">{queueNotice}</div>
+          )}
         </div>
       )}
 
@@ -523,19 +616,38 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
               <table className="video-table">
                 <thead>
                   <tr>
+                    <th className="select-cell"></th>
                     <th>Vimeo ID</th>
                     <th>Title</th>
                     <th>Folder ID</th>
                     <th>Folder Path</th>
+                    {igniteStatus && <th>Ignite</th>}
                   </tr>
                 </thead>
                 <tbody>
-                  {videos.map((video) => (
+                  {filteredVideos.map((video) => (
                     <tr key={video.vimeoId}>
+                      <td className="select-cell">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(video.vimeoId)}
+                          onChange={(e) =>
+                            toggleVideos([video.vimeoId], e.target.checked)
+                          }
+                        />
+                      </td>
                       <td className="mono">{video.vimeoId}</td>
                       <td>{video.title}</td>
                       <td className="mono">{video.folderId || '—'}</td>
                       <td>{video.folderPath || '(Root)'}</td>
+                      {igniteStatus && (
+                        <td>
+                          <ImportBadge
+                            docs={igniteStatus.get(video.vimeoId)}
+                            apiBase={apiBase}
+                          />
+                        </td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -549,14 +661,22 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
                   const folderName = folderId
                     ? folderData?.name || folderId
                     : '(Root - No Folder)';
-                  if (folderVideos.length === 0) return null;
+                  const visibleVideos = folderVideos.filter((v) =>
+                    filteredIds.has(v.vimeoId)
+                  );
+                  if (visibleVideos.length === 0) return null;
 
                   return (
                     <FolderGroup
                       key={folderId || 'root'}
                       folderId={folderId}
                       folderName={folderName}
-                      videos={folderVideos}
+                      videos={visibleVideos}
+                      folderVideoIds={folderVideos.map((v) => v.vimeoId)}
+                      selectedIds={selectedIds}
+                      onToggle={toggleVideos}
+                      igniteStatus={igniteStatus}
+                      apiBase={apiBase}
                     />
                   );
                 }
@@ -566,6 +686,17 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
         </div>
       )}
 
+      {/* Reconciliation with Ignite */}
+      {progress.status === 'complete' &&
+        videos.length > 0 &&
+        igniteToken.trim() && (
+          <ReconciliationReport
+            vimeoVideos={videos}
+            igniteToken={igniteToken}
+            apiBase={apiBase}
+          />
+        )}
+
       {/* Empty State */}
       {progress.status === 'idle' && videos.length === 0 && (
         <div className="browser-empty">
@@ -579,34 +710,122 @@ export function VideoBrowser({ vimeoToken }: VideoBrowserProps) {
   );
 }
 
+// Ignite import status of a single video, linking to the Ignite video
+interface ImportBadgeProps {
+  docs: IgniteVideoDoc[] | undefined;
+  apiBase: string;
+}
+
+function ImportBadge({ docs, apiBase }: ImportBadgeProps) {
+  if (!docs || docs.length === 0) {
+    return <span className="status-badge pending">Not imported</span>;
+  }
+
+  return (
+    <a
+      className="status-badge complete"
+      href={igniteAdminUrl(apiBase, docs[0].id)}
+      target="_blank"
+      rel="noreferrer"
+      title={
+        docs.length > 1
+          ? `Imported ${docs.length} times: ${docs.map((d) => d.id).join(', ')}`
+          : docs[0].title
+      }
+    >
+      Imported{docs.length > 1 ? ` (${docs.length}×)` : ''}
+    </a>
+  );
+}
+
 // Collapsible folder group component
 interface FolderGroupProps {
   folderId: string | null;
   folderName: string;
-  videos: VimeoVideoInfo[];
+  videos: VimeoVideoInfo[]; // Videos shown (matching the filter)
+  folderVideoIds: string[]; // Every video in the folder
+  selectedIds: Set<string>;
+  onToggle: (ids: string[], selected: boolean) => void;
+  igniteStatus: Map<string, IgniteVideoDoc[]> | null;
+  apiBase: string;
 }
 
-function FolderGroup({ folderId, folderName, videos }: FolderGroupProps) {
+function FolderGroup({
+  folderId,
+  folderName,
+  videos,
+  folderVideoIds,
+  selectedIds,
+  onToggle,
+  igniteStatus,
+  apiBase,
+}: FolderGroupProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const wholeFolderSelected = folderVideoIds.every((id) => selectedIds.has(id));
+  const importedCount = igniteStatus
+    ? folderVideoIds.filter((id) => igniteStatus.has(id)).length
+    : 0;
+
+  // Folder badge: all, none or some of the folder's videos imported
+  const folderBadge = () => {
+    if (!igniteStatus) return null;
+    if (importedCount === folderVideoIds.length) {
+      return <span className="status-badge complete">Imported</span>;
+    }
+    if (importedCount === 0) {
+      return <span className="status-badge pending">Not imported</span>;
+    }
+    return (
+      <span className="status-badge partial">
+        Imported {importedCount} of {folderVideoIds.length}
+      </span>
+    );
+  };
 
   return (
     <div className="folder-group">
-      <button
-        className="folder-header"
-        onClick={() => setIsExpanded(!isExpanded)}
-      >
-        <span className={`folder-icon ${isExpanded ? 'expanded' : ''}`}>▶</span>
-        <span className="folder-name">{folderName}</span>
-        <span className="folder-count">{videos.length} videos</span>
-        {folderId && <span className="folder-id">ID: {folderId}</span>}
-      </button>
+      <div className="folder-header-row">
+        <input
+          type="checkbox"
+          title="Select whole folder"
+          checked={wholeFolderSelected}
+          onChange={(e) => onToggle(folderVideoIds, e.target.checked)}
+        />
+        <button
+          className="folder-header"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <span className={`folder-icon ${isExpanded ? 'expanded' : ''}`}>
+            ▶
+          </span>
+          <span className="folder-name">{folderName}</span>
+          <span className="folder-count">
+            {videos.length === folderVideoIds.length
+              ? `${videos.length} videos`
+              : `${videos.length} of ${folderVideoIds.length} videos`}
+          </span>
+          {folderId && <span className="folder-id">ID: {folderId}</span>}
+          {folderBadge()}
+        </button>
+      </div>
       {isExpanded && (
         <div className="folder-videos">
           {videos.map((video) => (
-            <div key={video.vimeoId} className="folder-video-item">
+            <label key={video.vimeoId} className="folder-video-item">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(video.vimeoId)}
+                onChange={(e) => onToggle([video.vimeoId], e.target.checked)}
+              />
               <span className="video-id mono">{video.vimeoId}</span>
               <span className="video-title">{video.title}</span>
-            </div>
+              {igniteStatus && (
+                <ImportBadge
+                  docs={igniteStatus.get(video.vimeoId)}
+                  apiBase={apiBase}
+                />
+              )}
+            </label>
           ))}
         </div>
       )}
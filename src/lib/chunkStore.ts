@@ -0,0 +1,64 @@
+import { CHUNK_STORE, openDb, promisify } from './db';
+
+// IndexedDB store for downloaded video chunks, so an interrupted download can
+// continue from its last byte after a reload instead of starting over.
+
+interface ChunkRecord {
+  importId: string;
+  offset: number;
+  data: Blob;
+}
+
+// Key range covering every chunk of one import
+const importRange = (importId: string) =>
+  IDBKeyRange.bound([importId, 0], [importId, Infinity]);
+
+export const saveChunk = async (
+  importId: string,
+  offset: number,
+  data: Blob
+): Promise<void> => {
+  const db = await openDb();
+  const record: ChunkRecord = { importId, offset, data };
+  await promisify(
+    db
+      .transaction(CHUNK_STORE, 'readwrite')
+      .objectStore(CHUNK_STORE)
+      .put(record)
+  );
+};
+
+// Load the contiguous chunks of an import up to `upToOffset`, ordered by
+// offset. Returns null if the stored chunks don't add up to that offset.
+export const loadChunks = async (
+  importId: string,
+  upToOffset: number
+): Promise<Blob[] | null> => {
+  const db = await openDb();
+  const records = (await promisify(
+    db
+      .transaction(CHUNK_STORE, 'readonly')
+      .objectStore(CHUNK_STORE)
+      .getAll(importRange(importId))
+  )) as ChunkRecord[];
+
+  const parts: Blob[] = [];
+  let offset = 0;
+  for (const record of records) {
+    if (record.offset !== offset || offset >= upToOffset) break;
+    parts.push(record.data);
+    offset += record.data.size;
+  }
+
+  return offset === upToOffset ? parts : null;
+};
+
+export const deleteChunks = async (importId: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(
+    db
+      .transaction(CHUNK_STORE, 'readwrite')
+      .objectStore(CHUNK_STORE)
+      .delete(importRange(importId))
+  );
+};
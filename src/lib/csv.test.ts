@@ -0,0 +1,60 @@
+import { csvField, normalizeHeader, parseCSV, toCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('splits rows and fields', () => {
+    expect(parseCSV('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('reads quoted fields with commas, quotes and newlines', () => {
+    expect(parseCSV('"a, b","say ""hi""","line 1\nline 2"')).toEqual([
+      ['a, b', 'say "hi"', 'line 1\nline 2'],
+    ]);
+  });
+
+  it('handles CRLF line endings, empty lines and a byte order mark', () => {
+    expect(parseCSV('\uFEFFid,title\r\n\r\n1,One\r\n2,\r\n')).toEqual([
+      ['id', 'title'],
+      ['1', 'One'],
+      ['2', ''],
+    ]);
+  });
+
+  it('returns no rows for an empty file', () => {
+    expect(parseCSV('')).toEqual([]);
+    expect(parseCSV('\n\n')).toEqual([]);
+  });
+});
+
+describe('normalizeHeader', () => {
+  it.each([
+    ['Vimeo ID', 'vimeoid'],
+    ['Auto-transcribe', 'autotranscribe'],
+    [' Title_Override ', 'titleoverride'],
+  ])('normalizes %j', (header, expected) => {
+    expect(normalizeHeader(header)).toBe(expected);
+  });
+});
+
+describe('toCSV', () => {
+  it('quotes only fields that need it', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, "b"')).toBe('"a, ""b"""');
+    expect(csvField(12.5)).toBe('12.5');
+    expect(csvField(null)).toBe('');
+  });
+
+  it('writes files that parseCSV reads back', () => {
+    const rows = [
+      ['123', 'Title, with "quotes"', null],
+      ['456', 'Line 1\nLine 2', '10.00'],
+    ];
+    expect(parseCSV(toCSV(['Vimeo ID', 'Title', 'Size'], rows))).toEqual([
+      ['Vimeo ID', 'Title', 'Size'],
+      ['123', 'Title, with "quotes"', ''],
+      ['456', 'Line 1\nLine 2', '10.00'],
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+// Minimal RFC 4180 CSV parsing: quoted fields, escaped quotes ("") and
+// newlines inside quotes. Empty lines are skipped.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Normalize a header for lookup ("Auto-transcribe" -> "autotranscribe")
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Quote a CSV field, escaping embedded quotes
+export const csvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build CSV text from a header row and data rows
+export const toCSV = (
+  headers: string[],
+  rows: Array<Array<string | number | null>>
+): string =>
+  [headers.join(','), ...rows.map((r) => r.map(csvField).join(','))].join('\n');
+
+// Trigger a file download in the browser
+export const downloadFile = (
+  content: string,
+  type: string,
+  filename: string
+) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
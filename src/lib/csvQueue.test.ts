@@ -0,0 +1,98 @@
+import { parseQueueCSV } from './csvQueue';
+
+const parse = (lines: string[], queued: string[] = []) =>
+  parseQueueCSV(lines.join('\n'), new Set(queued));
+
+describe('parseQueueCSV', () => {
+  it('rejects an empty file or a file without an ID column', () => {
+    expect(parse([]).fileError).toBe('The file is empty.');
+    expect(parse(['Title,Tags', 'A,b']).fileError).toBe(
+      'No "Vimeo ID" column found in the header row.'
+    );
+  });
+
+  it('reads IDs, URLs and the Video Browser export columns', () => {
+    const { rows, fileError } = parse([
+      '\uFEFFVimeo ID,Title,Folder ID,Folder Name,Folder Path',
+      '123,First,10,Webinars,Marketing/Webinars',
+      'https://vimeo.com/456,"Second, with comma",,,',
+    ]);
+    expect(fileError).toBeNull();
+    expect(rows).toEqual([
+      {
+        rowNumber: 2,
+        vimeoId: '123',
+        title: 'First',
+        folder: {
+          folderId: '10',
+          folderName: 'Webinars',
+          folderPath: 'Marketing/Webinars',
+        },
+        overrides: {},
+        errors: [],
+      },
+      {
+        rowNumber: 3,
+        vimeoId: '456',
+        title: 'Second, with comma',
+        folder: null,
+        overrides: {},
+        errors: [],
+      },
+    ]);
+  });
+
+  it('collects per-row overrides', () => {
+    const [row] = parse([
+      'ID,Title Override,Description,Tags,Category,Language,Visibility,Auto-transcribe',
+      '123,New title,"Line 1\nLine 2",a;b,cat-1,de-CH,Public,yes',
+    ]).rows;
+    expect(row.errors).toEqual([]);
+    expect(row.overrides).toEqual({
+      titleOverride: 'New title',
+      descriptionOverride: 'Line 1\nLine 2',
+      tags: 'a,b',
+      categoryId: 'cat-1',
+      useCategoryMapping: false,
+      language: 'de-CH',
+      visibility: 'public',
+      autoTranscribe: true,
+    });
+  });
+
+  it('keeps the folder mapping for rows without a category', () => {
+    const [row] = parse(['Vimeo ID,Category', '123,']).rows;
+    expect(row.overrides).toEqual({});
+  });
+
+  it('reports every problem of a row', () => {
+    const [row] = parse([
+      'Vimeo ID,Title Override,Language,Visibility,Auto Transcribe',
+      `123,${'x'.repeat(101)},english,hidden,maybe`,
+    ]).rows;
+    expect(row.errors).toEqual([
+      'Title override is longer than 100 characters',
+      'Invalid language "english"',
+      'Invalid visibility "hidden"',
+      'Invalid auto-transcribe value "maybe"',
+    ]);
+  });
+
+  it('flags missing, duplicate and already queued IDs', () => {
+    const { rows } = parse(['Vimeo ID', 'abc', '123', '123', '789'], ['789']);
+    expect(rows.map((row) => row.errors)).toEqual([
+      ['Missing or invalid Vimeo ID'],
+      [],
+      ['Duplicate Vimeo ID in file'],
+      ['Already in the queue'],
+    ]);
+  });
+
+  it('skips empty lines', () => {
+    const { rows } = parse(['Vimeo ID', '', '123', '', '456', '']);
+    expect(rows.map((row) => [row.rowNumber, row.vimeoId])).toEqual([
+      [2, '123'],
+      [3, '456'],
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { normalizeHeader, parseCSV } from './csv';
+import { VimeoFolderInfo } from './folders';
+import { parseVimeoId } from './vimeoId';
+
+// Parsing of queue CSV files: one Vimeo ID per row plus optional per-row
+// option overrides. Used by the CSV import of the web UI and the CLI.
+
+// Per-row values that replace the queue options. Unset fields keep the
+// options from the Options section.
+export interface CsvRowOverrides {
+  titleOverride?: string;
+  descriptionOverride?: string;
+  tags?: string;
+  categoryId?: string;
+  // Off when the row names a category, so the folder mapping can't replace it
+  useCategoryMapping?: boolean;
+  language?: string;
+  visibility?: 'private' | 'public' | 'inherit';
+  autoTranscribe?: boolean;
+}
+
+export interface CsvQueueRow {
+  rowNumber: number; // Line in the file, header is line 1
+  vimeoId: string;
+  title: string | null; // Vimeo title column, for the preview only
+  folder: VimeoFolderInfo | null;
+  overrides: CsvRowOverrides;
+  errors: string[];
+}
+
+// Accepted header names (normalized) for each column. The first group matches
+// the "Download Videos CSV" export of the Video Browser.
+const COLUMN_ALIASES = {
+  vimeoId: ['vimeoid', 'id', 'videoid'],
+  title: ['title'],
+  folderId: ['folderid'],
+  folderName: ['foldername'],
+  folderPath: ['folderpath'],
+  titleOverride: ['titleoverride', 'newtitle', 'ignitetitle'],
+  description: ['description'],
+  tags: ['tags'],
+  category: ['category', 'categoryid'],
+  language: ['language'],
+  visibility: ['visibility'],
+  autoTranscribe: ['autotranscribe'],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+const LANGUAGE_PATTERN = /^[a-z]{2,3}([-_][a-z0-9]{2,4})?$/i;
+
+// Parse CSV text into queue rows, validating each row
+export const parseQueueCSV = (
+  text: string,
+  queuedVimeoIds: Set<string>
+): { rows: CsvQueueRow[]; fileError: string | null } => {
+  const [headerRow, ...dataRows] = parseCSV(text);
+  if (!headerRow) {
+    return { rows: [], fileError: 'The file is empty.' };
+  }
+
+  // Map each known column to its index in the header
+  const headers = headerRow.map(normalizeHeader);
+  const columnIndex = {} as Record<Column, number>;
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach((column) => {
+    columnIndex[column] = headers.findIndex((h) =>
+      COLUMN_ALIASES[column].includes(h)
+    );
+  });
+
+  if (columnIndex.vimeoId === -1) {
+    return {
+      rows: [],
+      fileError: 'No "Vimeo ID" column found in the header row.',
+    };
+  }
+
+  const seenIds = new Set<string>();
+
+  const rows = dataRows.map((cells, index) => {
+    const cell = (column: Column): string =>
+      columnIndex[column] >= 0 ? (cells[columnIndex[column]] || '').trim() : '';
+    const errors: string[] = [];
+    const overrides: CsvRowOverrides = {};
+
+    const vimeoId = parseVimeoId(cell('vimeoId'));
+    if (!vimeoId) {
+      errors.push('Missing or invalid Vimeo ID');
+    } else if (seenIds.has(vimeoId)) {
+      errors.push('Duplicate Vimeo ID in file');
+    } else if (queuedVimeoIds.has(vimeoId)) {
+      errors.push('Already in the queue');
+    }
+    seenIds.add(vimeoId);
+
+    if (cell('titleOverride')) {
+      overrides.titleOverride = cell('titleOverride');
+      if (overrides.titleOverride.length > 100) {
+        errors.push('Title override is longer than 100 characters');
+      }
+    }
+    if (cell('description'))
+      overrides.descriptionOverride = cell('description');
+    if (cell('tags')) overrides.tags = cell('tags').replace(/;/g, ',');
+    if (cell('category')) {
+      overrides.categoryId = cell('category');
+      overrides.useCategoryMapping = false;
+    }
+
+    const language = cell('language');
+    if (language) {
+      if (LANGUAGE_PATTERN.test(language)) {
+        overrides.language = language;
+      } else {
+        errors.push(`Invalid language "${language}"`);
+      }
+    }
+
+    const visibility = cell('visibility').toLowerCase();
+    if (visibility) {
+      if (
+        visibility === 'private' ||
+        visibility === 'public' ||
+        visibility === 'inherit'
+      ) {
+        overrides.visibility = visibility;
+      } else {
+        errors.push(`Invalid visibility "${visibility}"`);
+      }
+    }
+
+    const autoTranscribe = cell('autoTranscribe').toLowerCase();
+    if (autoTranscribe) {
+      if (TRUE_VALUES.includes(autoTranscribe)) {
+        overrides.autoTranscribe = true;
+      } else if (FALSE_VALUES.includes(autoTranscribe)) {
+        overrides.autoTranscribe = false;
+      } else {
+        errors.push(`Invalid auto-transcribe value "${autoTranscribe}"`);
+      }
+    }
+
+    const folderId = cell('folderId') || null;
+    const folderName = cell('folderName') || null;
+    const folderPath = cell('folderPath') || null;
+
+    return {
+      rowNumber: index + 2,
+      vimeoId,
+      title: cell('title') || null,
+      folder:
+        folderId || folderPath ? { folderId, folderName, folderPath } : null,
+      overrides,
+      errors,
+    };
+  });
+
+  return { rows, fileError: null };
+};
@@ -0,0 +1,147 @@
+import {
+  CategoryMapping,
+  VimeoFolderInfo,
+  extractFolderId,
+  findMappedCategory,
+  mergeFoldersIntoMappings,
+  resolveFolderInfo,
+} from './folders';
+
+const mapping = (
+  folderPath: string,
+  categoryId: string,
+  folderId: string | null = null
+): CategoryMapping => ({
+  folderId,
+  folderPath,
+  categoryId,
+  categoryTitle: categoryId ? `Category ${categoryId}` : '',
+});
+
+const folder = (
+  folderPath: string | null,
+  folderId: string | null = null
+): VimeoFolderInfo => ({
+  folderId,
+  folderName: folderPath ? folderPath.split('/').pop() || null : null,
+  folderPath,
+});
+
+describe('extractFolderId', () => {
+  it('reads the project ID from a folder URI', () => {
+    expect(extractFolderId('/users/123/projects/456')).toBe('456');
+  });
+
+  it('returns other URIs unchanged', () => {
+    expect(extractFolderId('/users/123/folders/abc')).toBe(
+      '/users/123/folders/abc'
+    );
+  });
+});
+
+describe('resolveFolderInfo', () => {
+  it('returns empty info for videos outside a folder', () => {
+    expect(resolveFolderInfo(null)).toEqual({
+      folderId: null,
+      folderName: null,
+      folderPath: null,
+    });
+  });
+
+  it('builds the path from the root down', () => {
+    expect(
+      resolveFolderInfo({
+        uri: '/users/1/projects/30',
+        name: 'Webinars',
+        metadata: {
+          connections: {
+            // Immediate parent first
+            ancestor_path: [
+              { uri: '/users/1/projects/20', name: 'Marketing' },
+              { uri: '/users/1/projects/10', name: 'Company' },
+            ],
+          },
+        },
+      })
+    ).toEqual({
+      folderId: '30',
+      folderName: 'Webinars',
+      folderPath: 'Company/Marketing/Webinars',
+    });
+  });
+
+  it('uses the folder name as path for top-level folders', () => {
+    expect(
+      resolveFolderInfo({ uri: '/users/1/projects/10', name: 'Company' })
+        .folderPath
+    ).toBe('Company');
+  });
+});
+
+describe('findMappedCategory', () => {
+  const mappings = [
+    mapping('Marketing', 'marketing'),
+    mapping('Marketing/Webinars', 'webinars'),
+    mapping('Sales', 'sales-by-id', '99'),
+    mapping('Support', ''), // Known but not mapped
+  ];
+
+  it('prefers a folder ID match over a path match', () => {
+    expect(
+      findMappedCategory(mappings, folder('Marketing', '99'))?.categoryId
+    ).toBe('sales-by-id');
+  });
+
+  it('uses the most specific path mapping for subfolders', () => {
+    expect(
+      findMappedCategory(mappings, folder('Marketing/Webinars/2024'))
+        ?.categoryId
+    ).toBe('webinars');
+    expect(
+      findMappedCategory(mappings, folder('Marketing/Events'))?.categoryId
+    ).toBe('marketing');
+  });
+
+  it('does not match folders that only share a name prefix', () => {
+    expect(findMappedCategory(mappings, folder('Marketing2'))).toBeNull();
+    expect(
+      findMappedCategory(mappings, folder('Marketing/Webinars2'))?.categoryId
+    ).toBe('marketing');
+  });
+
+  it('ignores rows without a category', () => {
+    expect(findMappedCategory(mappings, folder('Support'))).toBeNull();
+  });
+
+  it('returns null for videos outside a folder', () => {
+    expect(findMappedCategory(mappings, folder(null))).toBeNull();
+  });
+});
+
+describe('mergeFoldersIntoMappings', () => {
+  it('adds new folders once and keeps existing rows', () => {
+    const existing = [mapping('Marketing', 'marketing', '20')];
+    const merged = mergeFoldersIntoMappings(existing, [
+      folder('Marketing', '20'),
+      folder('Sales', '30'),
+      folder('Sales', '30'),
+      folder('No ID'),
+    ]);
+    expect(merged).toEqual([
+      existing[0],
+      {
+        folderId: '30',
+        folderPath: 'Sales',
+        categoryId: '',
+        categoryTitle: '',
+      },
+    ]);
+  });
+
+  it('returns the same array when nothing is new', () => {
+    const existing = [mapping('Marketing', 'marketing', '20')];
+    expect(
+      mergeFoldersIntoMappings(existing, [folder('Marketing', '20')])
+    ).toBe(existing);
+  });
+});
@@ -0,0 +1,112 @@
+// Vimeo folder resolution and folder -> Ignite category mapping
+
+// parent_folder as returned on Vimeo video objects
+export interface VimeoParentFolder {
+  uri: string;
+  name: string;
+  metadata?: {
+    connections?: {
+      ancestor_path?: Array<{
+        uri: string;
+        name: string;
+      }>;
+    };
+  };
+}
+
+export interface VimeoFolderInfo {
+  folderId: string | null;
+  folderName: string | null;
+  folderPath: string | null; // Full path like "Root/Parent/Child"
+}
+
+// Maps a Vimeo folder (by ID, or by path for hand-entered rows) to an Ignite
+// category. An empty categoryId means the folder is known but not mapped yet.
+export interface CategoryMapping {
+  folderId: string | null;
+  folderPath: string;
+  categoryId: string;
+  categoryTitle: string;
+}
+
+// Extract folder ID from URI (e.g., "/users/123/projects/456" -> "456")
+export const extractFolderId = (uri: string): string => {
+  const match = uri.match(/\/projects\/(\d+)/);
+  return match ? match[1] : uri;
+};
+
+// Resolve folder ID, name and full path from a video's parent_folder
+export const resolveFolderInfo = (
+  parentFolder: VimeoParentFolder | null | undefined
+): VimeoFolderInfo => {
+  if (!parentFolder) {
+    return { folderId: null, folderName: null, folderPath: null };
+  }
+
+  const folderName = parentFolder.name;
+  let folderPath = folderName;
+
+  // ancestor_path is ordered from immediate parent to root, so reverse it
+  const ancestorPath = parentFolder.metadata?.connections?.ancestor_path;
+  if (ancestorPath && ancestorPath.length > 0) {
+    const pathParts = [...ancestorPath].reverse().map((a) => a.name);
+    pathParts.push(folderName);
+    folderPath = pathParts.join('/');
+  }
+
+  return {
+    folderId: extractFolderId(parentFolder.uri),
+    folderName,
+    folderPath,
+  };
+};
+
+// Find the mapped category for a folder. A folder ID match wins; otherwise
+// the most specific path mapping that equals or contains the folder's path.
+export const findMappedCategory = (
+  mappings: CategoryMapping[],
+  folder: VimeoFolderInfo
+): CategoryMapping | null => {
+  const mapped = mappings.filter((m) => m.categoryId.trim());
+
+  if (folder.folderId) {
+    const byId = mapped.find((m) => m.folderId === folder.folderId);
+    if (byId) return byId;
+  }
+
+  if (folder.folderPath) {
+    const path = folder.folderPath;
+    const byPath = mapped
+      .filter(
+        (m) =>
+          m.folderPath &&
+          (path === m.folderPath || path.startsWith(`${m.folderPath}/`))
+      )
+      .sort((a, b) => b.folderPath.length - a.folderPath.length);
+    if (byPath.length > 0) return byPath[0];
+  }
+
+  return null;
+};
+
+// Add unmapped rows for folders that aren't in the mapping table yet
+export const mergeFoldersIntoMappings = (
+  mappings: CategoryMapping[],
+  folders: VimeoFolderInfo[]
+): CategoryMapping[] => {
+  const known = new Set(mappings.map((m) => m.folderId || m.folderPath));
+  const added: CategoryMapping[] = [];
+
+  folders.forEach((folder) => {
+    if (!folder.folderId || known.has(folder.folderId)) return;
+    known.add(folder.folderId);
+    added.push({
+      folderId: folder.folderId,
+      folderPath: folder.folderPath || folder.folderName || folder.folderId,
+      categoryId: '',
+      categoryTitle: '',
+    });
+  });
+
+  return added.length > 0 ? [...mappings, ...added] : mappings;
+};
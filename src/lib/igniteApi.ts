@@ -0,0 +1,350 @@
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { parseRetryAfter } from './retryAfter';
+
+// Typed Ignite API client. Transient failures (no response, 429, 5xx) are
+// retried; every failure surfaces as one of the error classes below.
+
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY_MS = 1000;
+
+// Types
+export type IgniteVisibility = 'private' | 'public';
+
+// Subset of an Ignite video document used by the app
+export interface IgniteVideoDoc {
+  id: string;
+  title: string;
+  status?: string | null; // Encoding status, e.g. "COMPLETE"
+  description?: string | null;
+  tags?: Array<string | { title?: string; name?: string }> | null;
+  duration?: number | null;
+  customThumbnailUrl?: string | null;
+  customMetadata?: Record<string, string> | null;
+  createdAt?: string;
+}
+
+export interface IgnitePaginatedResponse<T> {
+  docs: T[];
+  totalDocs: number;
+  page: number;
+  totalPages: number;
+  hasNextPage: boolean;
+}
+
+// Body of PUT /videos/upload
+export interface IgniteCreatePayload {
+  title: string;
+  visibility: IgniteVisibility;
+  autoTranscribe: boolean;
+  customMetadata: Record<string, string>;
+  description?: string;
+  language?: string;
+  tags?: string[];
+  categories?: string[];
+}
+
+// Video created (or re-opened) for upload and where to PUT the file
+export interface IgniteUploadTarget {
+  videoId: string;
+  signedUrl: string;
+}
+
+// Fields of PATCH /videos/{id}
+export interface IgniteVideoPatch {
+  title?: string;
+  description?: string;
+  tags?: string[];
+}
+
+// Category document as Ignite returns it; older instances name it `name`
+export interface IgniteCategoryDoc {
+  id: string;
+  title?: string | null;
+  name?: string | null;
+}
+
+export interface IgniteCategory {
+  id: string;
+  title: string;
+}
+
+export interface IgniteTextTrackUpload {
+  file: Blob;
+  language: string;
+  label: string;
+  kind: 'captions' | 'subtitles';
+}
+
+// Errors
+export class IgniteApiError extends Error {
+  constructor(message: string, public status: number | null) {
+    super(message);
+    this.name = 'IgniteApiError';
+  }
+}
+
+// 401: token missing, invalid or expired
+export class IgniteAuthError extends IgniteApiError {
+  constructor(message: string) {
+    super(message, 401);
+    this.name = 'IgniteAuthError';
+  }
+}
+
+// 403: token valid but not allowed to do this
+export class IgniteForbiddenError extends IgniteApiError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = 'IgniteForbiddenError';
+  }
+}
+
+export class IgniteNotFoundError extends IgniteApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'IgniteNotFoundError';
+  }
+}
+
+// 5xx, or no response at all (status null), after the retries
+export class IgniteServerError extends IgniteApiError {
+  constructor(message: string, status: number | null) {
+    super(message, status);
+    this.name = 'IgniteServerError';
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Error response body of Ignite (Payload)
+interface IgniteErrorBody {
+  errors?: Array<{ message?: string }>;
+  message?: string;
+  error?: string;
+}
+
+// Message Ignite put in an error response, if any
+const responseMessage = (data: IgniteErrorBody | string | null | undefined) =>
+  data && typeof data === 'object'
+    ? data.errors?.[0]?.message || data.message || data.error || null
+    : null;
+
+const toIgniteError = (error: unknown, label: string): IgniteApiError => {
+  const err = error as AxiosError<IgniteErrorBody | string>;
+  if (!err.response) {
+    return new IgniteServerError(
+      `${label}: no response from Ignite (${err.message || 'network error'})`,
+      null
+    );
+  }
+
+  const { status, data } = err.response;
+  const detail = responseMessage(data);
+  const withDetail = (message: string) =>
+    detail ? `${message}: ${detail}` : message;
+  if (status === 401) {
+    return new IgniteAuthError(
+      withDetail(`${label}: Ignite token is invalid or expired (401)`)
+    );
+  }
+  if (status === 403) {
+    return new IgniteForbiddenError(
+      withDetail(`${label}: Ignite token is not allowed to do this (403)`)
+    );
+  }
+  if (status === 404) {
+    return new IgniteNotFoundError(withDetail(`${label}: not found (404)`));
+  }
+  if (status >= 500) {
+    return new IgniteServerError(
+      withDetail(`${label}: Ignite server error (${status})`),
+      status
+    );
+  }
+  return new IgniteApiError(withDetail(`${label} failed (${status})`), status);
+};
+
+// Whether a failed attempt may be repeated. Requests that are not
+// idempotent (creating a video) are only repeated after a 429, which means
+// the request was not processed.
+const isTransient = (error: unknown, idempotent: boolean): boolean => {
+  const status = (error as AxiosError).response?.status;
+  if (status === 429) return true;
+  if (!idempotent) return false;
+  return status === undefined || status >= 500;
+};
+
+// Typed Ignite endpoints for one API base and token
+export const createIgniteClient = (apiBase: string, igniteToken: string) => {
+  const request = async <T>(
+    label: string,
+    config: AxiosRequestConfig,
+    idempotent = true
+  ): Promise<T> => {
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.request<T>({
+          ...config,
+          url: `${apiBase}${config.url}`,
+          headers: {
+            ...config.headers,
+            Authorization: `Bearer ${igniteToken}`,
+          },
+        });
+        return response.data;
+      } catch (error) {
+        if (attempt >= MAX_RETRIES || !isTransient(error, idempotent)) {
+          throw toIgniteError(error, label);
+        }
+        const retryAfter = parseRetryAfter(
+          (error as AxiosError).response?.headers['retry-after']
+        );
+        await delay(retryAfter ?? retryDelay);
+        retryDelay *= 2;
+      }
+    }
+  };
+
+  // One page of videos matching a Payload `where` query string
+  const findVideos = (
+    where: string,
+    page = 1,
+    limit = 100
+  ): Promise<IgnitePaginatedResponse<IgniteVideoDoc>> =>
+    request('Video lookup', {
+      method: 'GET',
+      url: `/videos?${where}&limit=${limit}&page=${page}`,
+    });
+
+  // First Ignite video imported from this Vimeo video, or null
+  const findVideoByVimeoId = async (
+    vimeoId: string
+  ): Promise<IgniteVideoDoc | null> => {
+    const result = await findVideos(
+      `where[customMetadata.vimeoId][equals]=${encodeURIComponent(vimeoId)}`,
+      1,
+      1
+    );
+    return result.docs?.[0] || null;
+  };
+
+  const getVideo = (videoId: string): Promise<IgniteVideoDoc> =>
+    request('Loading Ignite video', {
+      method: 'GET',
+      url: `/videos/${videoId}`,
+    });
+
+  // Create a video and get the signed URL to upload its file to
+  const createVideo = (
+    payload: IgniteCreatePayload
+  ): Promise<IgniteUploadTarget> =>
+    request(
+      'Creating Ignite video',
+      { method: 'PUT', url: '/videos/upload', data: payload },
+      false
+    );
+
+  // New signed upload URL for an existing video, used when an import is
+  // retried after the video was created
+  const requestUploadUrl = (videoId: string): Promise<{ signedUrl: string }> =>
+    request('Requesting upload URL', {
+      method: 'PUT',
+      url: `/videos/${videoId}/upload`,
+      data: {},
+    });
+
+  const updateVideo = (
+    videoId: string,
+    patch: IgniteVideoPatch
+  ): Promise<IgniteVideoDoc> =>
+    request('Updating Ignite video', {
+      method: 'PATCH',
+      url: `/videos/${videoId}`,
+      data: patch,
+    });
+
+  const deleteVideo = async (videoId: string): Promise<void> => {
+    await request('Deleting Ignite video', {
+      method: 'DELETE',
+      url: `/videos/${videoId}`,
+    });
+  };
+
+  // Upload an image as the custom thumbnail, returns the new thumbnail URL
+  const uploadThumbnail = async (
+    videoId: string,
+    thumbnailBlob: Blob
+  ): Promise<string> => {
+    const formData = new FormData();
+    formData.append('file', thumbnailBlob, 'thumbnail.jpg');
+
+    const data = await request<{
+      customThumbnailUrl?: string;
+      thumbnailUrl?: string;
+    }>('Uploading thumbnail', {
+      method: 'PUT',
+      url: `/videos/${videoId}/thumbnail`,
+      data: formData,
+    });
+    return data.customThumbnailUrl || data.thumbnailUrl || '';
+  };
+
+  // Attach a WebVTT text track
+  const uploadTextTrack = async (
+    videoId: string,
+    track: IgniteTextTrackUpload
+  ): Promise<void> => {
+    const formData = new FormData();
+    formData.append('file', track.file, `${track.language}.vtt`);
+    formData.append('language', track.language);
+    formData.append('label', track.label);
+    formData.append('kind', track.kind);
+
+    await request('Uploading text track', {
+      method: 'PUT',
+      url: `/videos/${videoId}/tracks`,
+      data: formData,
+    });
+  };
+
+  const listCategories = async (): Promise<IgniteCategory[]> => {
+    const data = await request<IgnitePaginatedResponse<IgniteCategoryDoc>>(
+      'Loading categories',
+      { method: 'GET', url: '/categories?limit=1000&depth=0' }
+    );
+    return (data.docs || []).map((doc) => ({
+      id: doc.id,
+      title: doc.title || doc.name || doc.id,
+    }));
+  };
+
+  // Payload answers a create with `{ doc }`; the bare document is accepted
+  // as well
+  const createCategory = async (title: string): Promise<IgniteCategory> => {
+    const data = await request<{ doc: IgniteCategoryDoc } | IgniteCategoryDoc>(
+      'Creating category',
+      { method: 'POST', url: '/categories', data: { title } },
+      false
+    );
+    const doc = 'doc' in data ? data.doc : data;
+    return { id: doc.id, title: doc.title || title };
+  };
+
+  return {
+    findVideos,
+    findVideoByVimeoId,
+    getVideo,
+    createVideo,
+    requestUploadUrl,
+    updateVideo,
+    deleteVideo,
+    uploadThumbnail,
+    uploadTextTrack,
+    listCategories,
+    createCategory,
+  };
+};
+
+export type IgniteClient = ReturnType<typeof createIgniteClient>;
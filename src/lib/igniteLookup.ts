@@ -0,0 +1,87 @@
+import { IgniteVideoDoc, createIgniteClient } from './igniteApi';
+
+// Bulk lookup of Ignite videos by the Vimeo ID stored in
+// customMetadata.vimeoId
+
+// How many Vimeo IDs go into one `in` query (keeps the URL short)
+const IDS_PER_QUERY = 50;
+
+// Encoding statuses that mean the video is ready
+const ENCODED_STATUSES = ['COMPLETE', 'COMPLETED', 'READY', 'ENCODED'];
+
+export const isEncoded = (doc: IgniteVideoDoc): boolean =>
+  ENCODED_STATUSES.includes((doc.status || '').toString().toUpperCase());
+
+// Link to a video in the Ignite admin UI
+export const igniteAdminUrl = (apiBase: string, videoId: string): string =>
+  `${apiBase.replace('/api', '')}/admin/collections/videos/${videoId}`;
+
+// Fetch every Ignite video whose customMetadata.vimeoId is one of the given
+// IDs. Returns vimeoId -> videos (more than one if imported repeatedly).
+export const fetchIgniteVideosByVimeoIds = async (
+  apiBase: string,
+  igniteToken: string,
+  vimeoIds: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, IgniteVideoDoc[]>> => {
+  const ignite = createIgniteClient(apiBase, igniteToken);
+  const result = new Map<string, IgniteVideoDoc[]>();
+  const uniqueIds = Array.from(new Set(vimeoIds));
+
+  for (let i = 0; i < uniqueIds.length; i += IDS_PER_QUERY) {
+    const batch = uniqueIds.slice(i, i + IDS_PER_QUERY);
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const response = await ignite.findVideos(
+        `where[customMetadata.vimeoId][in]=${encodeURIComponent(
+          batch.join(',')
+        )}`,
+        page
+      );
+
+      for (const doc of response.docs || []) {
+        const vimeoId = doc.customMetadata?.vimeoId;
+        if (!vimeoId) continue;
+        result.set(vimeoId, [...(result.get(vimeoId) || []), doc]);
+      }
+
+      hasNextPage = response.hasNextPage;
+      page++;
+    }
+
+    onProgress?.(
+      Math.min(i + IDS_PER_QUERY, uniqueIds.length),
+      uniqueIds.length
+    );
+  }
+
+  return result;
+};
+
+// Fetch every Ignite video that has a customMetadata.vimeoId
+export const fetchAllIgniteVimeoImports = async (
+  apiBase: string,
+  igniteToken: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<IgniteVideoDoc[]> => {
+  const ignite = createIgniteClient(apiBase, igniteToken);
+  const docs: IgniteVideoDoc[] = [];
+  let page = 1;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const response = await ignite.findVideos(
+      'where[customMetadata.vimeoId][exists]=true',
+      page
+    );
+
+    docs.push(...(response.docs || []));
+    onProgress?.(docs.length, response.totalDocs);
+    hasNextPage = response.hasNextPage;
+    page++;
+  }
+
+  return docs;
+};
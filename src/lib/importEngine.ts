@@ -0,0 +1,1146 @@
+import axios, { AxiosError } from 'axios';
+import { downloadInChunks } from './transfer';
+import {
+  RenditionPolicy,
+  VimeoDownload,
+  describeRendition,
+  noRenditionMessage,
+  rankRenditions,
+} from './renditions';
+import {
+  CategoryMapping,
+  VimeoFolderInfo,
+  findMappedCategory,
+  resolveFolderInfo,
+} from './folders';
+import {
+  IgniteAuthError,
+  IgniteCreatePayload,
+  IgniteForbiddenError,
+  IgniteNotFoundError,
+  IgniteVisibility,
+  createIgniteClient,
+} from './igniteApi';
+import { isEncoded } from './igniteLookup';
+import {
+  MetadataChange,
+  RESYNC_FIELD_LABELS,
+  ResyncTarget,
+  buildResyncPatch,
+  diffIgniteVideo,
+} from './resync';
+import {
+  TransferIntegrityError,
+  UploadReceipt,
+  checkByteCount,
+  createMd5,
+  verifyUpload,
+} from './integrity';
+import { largestPictureUrl } from './thumbnails';
+import { toRelayUrl } from './relay';
+import { VimeoTextTrack, VimeoVideoData, createVimeoClient } from './vimeoApi';
+
+// Import pipeline shared by the web UI and the command line importer. Holds
+// no UI state: every change to an item goes through the `update` callback
+// of the caller.
+
+// Types
+export type ImportStage =
+  | 'pending' // Added to queue but not started
+  | 'checking'
+  | 'fetching_vimeo'
+  | 'downloading'
+  | 'creating_video'
+  | 'uploading'
+  | 'uploading_text_tracks'
+  | 'uploading_thumbnail'
+  | 'polling'
+  | 'reviewing' // Already imported, metadata changes wait for confirmation
+  | 'updating'
+  | 'complete'
+  | 'error';
+
+// 'inherit' derives the visibility from the Vimeo privacy setting
+export type VisibilityOption = IgniteVisibility | 'inherit';
+
+// What to do with a video that already exists in Ignite
+export type ExistingMode = 'skip' | 'update';
+
+// Vimeo privacy.view value -> Ignite visibility
+export type VisibilityRules = Record<string, IgniteVisibility>;
+
+// Vimeo details that can be carried over to the Ignite video
+export interface MetadataFields {
+  vimeoTags: boolean; // Merged into tags
+  createdTime: boolean; // customMetadata.vimeoCreatedTime
+  link: boolean; // customMetadata.vimeoLink
+  folderPath: boolean; // customMetadata.vimeoFolderPath
+  dimensions: boolean; // customMetadata.vimeoWidth / vimeoHeight
+  duration: boolean; // customMetadata.vimeoDuration
+}
+
+export interface ImportItem {
+  id: string;
+  vimeoId: string;
+  stage: ImportStage;
+  progress: number;
+  statusText: string;
+  vimeoData: VimeoVideoData | null;
+  igniteVideoId: string | null;
+  thumbnailUrl: string | null;
+  pendingThumbnailUrl: string | null; // Vimeo thumbnail URL to upload after encoding
+  errorMessage: string | null;
+  failedStage: ImportStage | null; // Stage the last attempt failed in
+  // Bytes of the selected rendition already saved to IndexedDB, and that
+  // rendition's size, so an interrupted download can resume where it stopped
+  downloadOffset: number;
+  downloadSize: number | null;
+  // Rendition picked by the selection policy and why it was picked
+  selectedRendition: string | null;
+  renditionReason: string | null;
+  // MD5 of the transferred file, when content hashes are verified
+  contentHash: string | null;
+  // Vimeo text tracks attached to the Ignite video (e.g. "de · Deutsch")
+  importedTextTracks: string[];
+  // Source folder in Vimeo and the Ignite category that was applied
+  folder: VimeoFolderInfo | null;
+  appliedCategory: string | null;
+  // Visibility sent to Ignite, with the Vimeo privacy it was derived from
+  appliedVisibility: string | null;
+  // Metadata changes for an existing Ignite video ("update existing" mode)
+  resync: { changes: MetadataChange[]; target: ResyncTarget } | null;
+  // Job on the local server when the import runs there
+  serverJobId: string | null;
+  // Snapshot of options at import time
+  options: {
+    visibility: VisibilityOption;
+    visibilityRules: VisibilityRules;
+    language: string;
+    autoTranscribe: boolean;
+    tags: string;
+    categoryId: string;
+    renditionPolicy: RenditionPolicy;
+    importTextTracks: boolean;
+    useCategoryMapping: boolean;
+    metadataFields: MetadataFields;
+    // Per-item replacements for the Vimeo title/description (empty = Vimeo's)
+    titleOverride: string;
+    descriptionOverride: string;
+    existingMode: ExistingMode;
+    // Hash the file while it streams and compare with the stored object
+    verifyContentHash: boolean;
+  };
+}
+
+interface VimeoMetadataExtras {
+  tags: string[];
+  customMetadata: Record<string, string>;
+}
+
+// Per-video settings derived from the queued options and the Vimeo data
+export interface ResolvedImportSettings {
+  createOptions: ImportItem['options'] & { visibility: IgniteVisibility };
+  folder: VimeoFolderInfo;
+  vimeoMetadata: VimeoMetadataExtras;
+  appliedCategory: string | null;
+  appliedVisibility: string;
+}
+
+// Applies a change to the caller's copy of an item
+export type ImportItemUpdater = (
+  updater: (prev: ImportItem) => ImportItem
+) => void;
+
+// Storage for downloaded chunks so an interrupted download can resume.
+// Without one, every attempt downloads the whole file again.
+export interface ChunkStore {
+  saveChunk: (importId: string, offset: number, data: Blob) => Promise<void>;
+  loadChunks: (importId: string, upToOffset: number) => Promise<Blob[] | null>;
+  deleteChunks: (importId: string) => Promise<void>;
+}
+
+// Moves a file from the Vimeo download URL straight to the signed upload
+// URL without holding it in memory (server-side imports). The Ignite video
+// is then created before the transfer instead of after the download.
+// With `hashContent` the receipt carries the MD5 of the bytes sent.
+export type StreamTransfer = (
+  sourceUrl: string,
+  size: number,
+  contentType: string,
+  signedUrl: string,
+  onProgress: (loaded: number, total: number) => void,
+  hashContent: boolean
+) => Promise<UploadReceipt>;
+
+export interface ImportRunContext {
+  update: ImportItemUpdater;
+  categoryMappings: CategoryMapping[];
+  chunkStore?: ChunkStore;
+  streamTransfer?: StreamTransfer;
+}
+
+export interface ImportEngineConfig {
+  vimeoToken: string;
+  igniteToken: string;
+  apiBase: string; // Without trailing slash
+  // Local relay the video download goes through (see lib/relay), if any
+  downloadRelayUrl?: string | null;
+}
+
+export const DEFAULT_VISIBILITY_RULES: VisibilityRules = {
+  anybody: 'public',
+  unlisted: 'private',
+  password: 'private',
+  disable: 'private',
+  nobody: 'private',
+  contacts: 'private',
+  users: 'private',
+};
+
+export const DEFAULT_METADATA_FIELDS: MetadataFields = {
+  vimeoTags: false,
+  createdTime: false,
+  link: false,
+  folderPath: false,
+  dimensions: false,
+  duration: false,
+};
+
+// Stages that end an item
+export const FINAL_STAGES: ImportStage[] = ['complete', 'error'];
+
+// Ignite encoding statuses that mean encoding failed
+const ENCODING_ERROR_STATUSES = ['FAILED', 'ERROR'];
+
+// Attempts of a transfer whose byte count or hash did not match
+const MAX_INTEGRITY_ATTEMPTS = 3;
+
+const NO_CHUNK_STORE: ChunkStore = {
+  saveChunk: async () => undefined,
+  loadChunks: async () => null,
+  deleteChunks: async () => undefined,
+};
+
+// Helper to delay execution
+export const delay = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Format bytes to human readable
+export const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+};
+
+// Extract error from axios
+export const extractAxiosError = (error: unknown): string => {
+  const err = error as AxiosError<any>;
+  if (err.response) {
+    const status = err.response.status;
+    const data = err.response.data as any;
+    const msg =
+      (data && (data.message || data.error || JSON.stringify(data))) ||
+      'Request failed';
+    return `${status}: ${msg}`;
+  }
+  if (err.request) {
+    return 'No response from server';
+  }
+  return err.message || 'Unknown error';
+};
+
+// Compare language codes by their primary subtag ("en-US" matches "en")
+const isSameLanguage = (a: string, b: string) =>
+  a.trim().toLowerCase().split(/[-_]/)[0] ===
+  b.trim().toLowerCase().split(/[-_]/)[0];
+
+// Split a comma-separated tag list
+const parseTags = (value: string): string[] =>
+  value
+    .split(',')
+    .map((t) => t.trim())
+    .filter((t) => t);
+
+// Build the extra tags and customMetadata taken over from Vimeo
+const buildVimeoMetadata = (
+  vimeoData: VimeoVideoData,
+  folder: VimeoFolderInfo | null,
+  fields: MetadataFields
+): VimeoMetadataExtras => {
+  const customMetadata: Record<string, string> = {};
+
+  if (fields.createdTime && vimeoData.created_time) {
+    customMetadata.vimeoCreatedTime = vimeoData.created_time;
+  }
+  if (fields.link && vimeoData.link) {
+    customMetadata.vimeoLink = vimeoData.link;
+  }
+  if (fields.folderPath && folder?.folderPath) {
+    customMetadata.vimeoFolderPath = folder.folderPath;
+  }
+  if (fields.dimensions) {
+    customMetadata.vimeoWidth = String(vimeoData.width);
+    customMetadata.vimeoHeight = String(vimeoData.height);
+  }
+  if (fields.duration) {
+    customMetadata.vimeoDuration = String(vimeoData.duration);
+  }
+
+  const tags =
+    fields.vimeoTags && vimeoData.tags
+      ? vimeoData.tags.map((t) => t.name.trim()).filter((t) => t)
+      : [];
+
+  return { tags, customMetadata };
+};
+
+// Resolve folder category, visibility, auto-transcription and carried-over
+// metadata for one video
+export const resolveImportSettings = (
+  importItem: ImportItem,
+  vimeoData: VimeoVideoData,
+  textTracks: VimeoTextTrack[],
+  categoryMappings: CategoryMapping[]
+): ResolvedImportSettings => {
+  const { options } = importItem;
+
+  // Skip auto-transcription when Vimeo already has captions in the language
+  const hasTrackInLanguage =
+    options.language.trim().length > 0 &&
+    textTracks.some((track) =>
+      isSameLanguage(track.language, options.language)
+    );
+
+  // Resolve the category from the source folder, falling back to the
+  // category ID from the options
+  const folder =
+    importItem.folder || resolveFolderInfo(vimeoData.parent_folder);
+  const mappedCategory = options.useCategoryMapping
+    ? findMappedCategory(categoryMappings, folder)
+    : null;
+
+  // Derive visibility from the Vimeo privacy setting if requested.
+  // Unknown privacy values fall back to private.
+  const privacyView = vimeoData.privacy?.view || null;
+  const visibility: IgniteVisibility =
+    options.visibility === 'inherit'
+      ? (privacyView && options.visibilityRules[privacyView]) || 'private'
+      : options.visibility;
+
+  return {
+    createOptions: {
+      ...options,
+      visibility,
+      categoryId: mappedCategory
+        ? mappedCategory.categoryId
+        : options.categoryId,
+      autoTranscribe: hasTrackInLanguage ? false : options.autoTranscribe,
+    },
+    folder,
+    vimeoMetadata: buildVimeoMetadata(
+      vimeoData,
+      folder,
+      options.metadataFields
+    ),
+    appliedCategory: mappedCategory
+      ? `${mappedCategory.categoryTitle || mappedCategory.categoryId} (from ${
+          mappedCategory.folderPath
+        })`
+      : options.categoryId.trim() || null,
+    appliedVisibility:
+      options.visibility === 'inherit'
+        ? `${visibility} (Vimeo: ${privacyView || 'unknown'})`
+        : visibility,
+  };
+};
+
+// Build the Ignite "create video" request body
+export const buildCreatePayload = (
+  title: string,
+  description: string | null,
+  vimeoVideoId: string,
+  options: ImportItem['options'] & { visibility: IgniteVisibility },
+  vimeoMetadata: VimeoMetadataExtras
+): IgniteCreatePayload => {
+  const payload: IgniteCreatePayload = {
+    title: (options.titleOverride.trim() || title).substring(0, 100),
+    visibility: options.visibility,
+    autoTranscribe: options.autoTranscribe,
+    customMetadata: { ...vimeoMetadata.customMetadata, vimeoId: vimeoVideoId },
+  };
+
+  // Add description if available
+  const finalDescription = options.descriptionOverride.trim() || description;
+  if (finalDescription && finalDescription.trim()) {
+    payload.description = finalDescription.trim();
+  }
+
+  if (options.language.trim()) {
+    payload.language = options.language.trim();
+  }
+
+  // User tags first, then Vimeo tags, without duplicates
+  const allTags = [...parseTags(options.tags), ...vimeoMetadata.tags].filter(
+    (tag, index, arr) =>
+      arr.findIndex((t) => t.toLowerCase() === tag.toLowerCase()) === index
+  );
+  if (allTags.length > 0) {
+    payload.tags = allTags;
+  }
+
+  if (options.categoryId.trim()) {
+    payload.categories = [options.categoryId.trim()];
+  }
+
+  return payload;
+};
+
+// Probe a download URL with a one-byte range request. A response of any
+// status means the browser may read it; no response means CORS blocked it.
+export const probeCors = async (
+  link: string
+): Promise<'success' | 'failure'> => {
+  try {
+    await axios.head(link, { headers: { Range: 'bytes=0-0' } });
+    return 'success';
+  } catch (corsError) {
+    return (corsError as AxiosError).response ? 'success' : 'failure';
+  }
+};
+
+// Create a new pending queue item
+export const createImportItem = (
+  vimeoId: string,
+  index: number,
+  options: ImportItem['options'],
+  folder: VimeoFolderInfo | null = null
+): ImportItem => ({
+  id: `${Date.now()}-${index}-${vimeoId}`,
+  vimeoId,
+  stage: 'pending',
+  progress: 0,
+  statusText: 'Queued',
+  vimeoData: null,
+  igniteVideoId: null,
+  thumbnailUrl: null,
+  pendingThumbnailUrl: null,
+  errorMessage: null,
+  failedStage: null,
+  downloadOffset: 0,
+  downloadSize: null,
+  selectedRendition: null,
+  renditionReason: null,
+  contentHash: null,
+  importedTextTracks: [],
+  folder,
+  appliedCategory: null,
+  appliedVisibility: null,
+  resync: null,
+  serverJobId: null,
+  options,
+});
+
+// Bind the Vimeo and Ignite API calls and the import steps to one set of
+// credentials
+export const createImportEngine = ({
+  vimeoToken,
+  igniteToken,
+  apiBase,
+  downloadRelayUrl,
+}: ImportEngineConfig) => {
+  // Vimeo calls share the global rate-limit scheduler
+  const vimeo = createVimeoClient(vimeoToken);
+
+  // Fetch Vimeo video data
+  const fetchVimeoData = vimeo.getVideo;
+
+  // Fetch the active text tracks (captions/subtitles) of a Vimeo video
+  const fetchVimeoTextTracks = vimeo.getTextTracks;
+
+  const ignite = createIgniteClient(apiBase, igniteToken);
+
+  // Check if a video with this Vimeo ID already exists in Ignite. Lookup
+  // errors are thrown: treating them as "not imported" would create
+  // duplicates, e.g. when the token expired.
+  const checkExistingVimeoImport = async (
+    vimeoVideoId: string
+  ): Promise<{ exists: boolean; videoId?: string; title?: string }> => {
+    const doc = await ignite.findVideoByVimeoId(vimeoVideoId);
+    return doc
+      ? { exists: true, videoId: doc.id, title: doc.title }
+      : { exists: false };
+  };
+
+  // Size of the object stored at a signed upload URL, read with a HEAD
+  // request, or null if the storage does not answer one
+  const fetchStoredSize = async (signedUrl: string): Promise<number | null> => {
+    try {
+      const response = await axios.head(signedUrl, { withCredentials: false });
+      const size = parseInt(response.headers['content-length'], 10);
+      return Number.isNaN(size) ? null : size;
+    } catch (headError) {
+      console.warn('Could not read the size of the uploaded file:', headError);
+      return null;
+    }
+  };
+
+  // Upload video to signed URL and read back what was stored
+  const uploadToSignedUrl = async (
+    signedUrl: string,
+    videoBlob: Blob,
+    contentType: string,
+    onProgress: (loaded: number, total: number) => void
+  ): Promise<UploadReceipt> => {
+    const response = await axios.put(signedUrl, videoBlob, {
+      headers: { 'Content-Type': contentType },
+      onUploadProgress: (evt: { loaded: number; total?: number }) => {
+        onProgress(evt.loaded, evt.total || videoBlob.size);
+      },
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+      withCredentials: false,
+    });
+    return {
+      // Only readable in the browser if the bucket exposes it (CORS)
+      etag: response.headers['etag'] || null,
+      md5: null,
+      storedSize: await fetchStoredSize(signedUrl),
+    };
+  };
+
+  // Upload a WebVTT text track to Ignite
+  const uploadTextTrack = (
+    videoId: string,
+    vttBlob: Blob,
+    track: VimeoTextTrack
+  ): Promise<void> =>
+    ignite.uploadTextTrack(videoId, {
+      file: vttBlob,
+      language: track.language,
+      label: track.name || track.language,
+      kind: track.type === 'subtitles' ? 'subtitles' : 'captions',
+    });
+
+  // "Update existing" mode: diff the Ignite video against fresh Vimeo data
+  // and hold the item for review. Nothing is changed until applyResync.
+  const prepareResync = async (
+    importItem: ImportItem,
+    igniteVideoId: string,
+    { update, categoryMappings }: ImportRunContext
+  ) => {
+    const { vimeoId } = importItem;
+
+    update((prev) => ({
+      ...prev,
+      stage: 'fetching_vimeo',
+      statusText: 'Fetching Vimeo data for update...',
+      progress: 20,
+      igniteVideoId,
+    }));
+
+    const vimeoData = await fetchVimeoData(vimeoId);
+    const settings = resolveImportSettings(
+      importItem,
+      vimeoData,
+      [],
+      categoryMappings
+    );
+    const payload = buildCreatePayload(
+      vimeoData.name,
+      vimeoData.description,
+      vimeoId,
+      settings.createOptions,
+      settings.vimeoMetadata
+    );
+    const target: ResyncTarget = {
+      title: payload.title,
+      description: payload.description || '',
+      tags: payload.tags || [],
+      thumbnailUrl: largestPictureUrl(vimeoData.pictures),
+    };
+
+    const igniteVideo = await ignite.getVideo(igniteVideoId);
+    const changes = diffIgniteVideo(igniteVideo, target);
+
+    update((prev) => ({
+      ...prev,
+      vimeoData,
+      folder: settings.folder,
+      thumbnailUrl: igniteVideo.customThumbnailUrl || null,
+      resync: { changes, target },
+      ...(changes.length > 0
+        ? {
+            stage: 'reviewing' as ImportStage,
+            statusText: `Already imported - ${changes.length} change(s) to review`,
+            progress: 50,
+          }
+        : {
+            stage: 'complete' as ImportStage,
+            statusText: 'Already imported - up to date',
+            progress: 100,
+          }),
+    }));
+  };
+
+  // PATCH the selected fields of a reviewed item; the video file is not
+  // uploaded again
+  const applyResync = async (item: ImportItem, update: ImportItemUpdater) => {
+    if (!item.resync || !item.igniteVideoId) return;
+
+    const { changes, target } = item.resync;
+    const videoId = item.igniteVideoId;
+    const selected = changes.filter((change) => change.selected);
+
+    update((prev) => ({
+      ...prev,
+      stage: 'updating',
+      statusText: 'Updating Ignite video...',
+      progress: 75,
+    }));
+
+    try {
+      const patch = buildResyncPatch(changes, target);
+      if (Object.keys(patch).length > 0) {
+        await ignite.updateVideo(videoId, patch);
+      }
+
+      let thumbnailUrl = item.thumbnailUrl;
+      if (
+        target.thumbnailUrl &&
+        selected.some((change) => change.field === 'thumbnail')
+      ) {
+        const thumbResponse = await axios.get(target.thumbnailUrl, {
+          responseType: 'blob',
+        });
+        thumbnailUrl = await ignite.uploadThumbnail(
+          videoId,
+          thumbResponse.data as Blob
+        );
+      }
+
+      update((prev) => ({
+        ...prev,
+        stage: 'complete',
+        statusText: selected.length
+          ? `Updated: ${selected
+              .map((change) => RESYNC_FIELD_LABELS[change.field])
+              .join(', ')}`
+          : 'No changes applied',
+        progress: 100,
+        thumbnailUrl,
+        resync: null,
+      }));
+    } catch (error) {
+      update((prev) => ({
+        ...prev,
+        stage: 'error',
+        errorMessage: extractAxiosError(error),
+        statusText: 'Update failed',
+        failedStage: 'updating',
+      }));
+    }
+  };
+
+  // Run the import of one item up to the point where Ignite encodes the
+  // upload. Resolves to the Ignite video ID to poll with checkEncoding, or
+  // null when the item ended in review, complete or error.
+  const runImport = async (
+    importItem: ImportItem,
+    context: ImportRunContext
+  ): Promise<string | null> => {
+    const { update, categoryMappings, streamTransfer } = context;
+    const chunkStore = context.chunkStore || NO_CHUNK_STORE;
+    const { id, vimeoId, options } = importItem;
+    // Set when a retry follows an attempt that already created the video
+    const retryVideoId = importItem.igniteVideoId;
+
+    try {
+      // Step 0: Check for existing import
+      update((prev) => ({
+        ...prev,
+        statusText: 'Checking for existing import...',
+      }));
+
+      const existingCheck = retryVideoId
+        ? { exists: false }
+        : await checkExistingVimeoImport(vimeoId);
+      if (existingCheck.exists && existingCheck.videoId) {
+        if (options.existingMode === 'update') {
+          await prepareResync(importItem, existingCheck.videoId, context);
+          return null;
+        }
+        throw new Error(
+          `Already imported (ID: ${existingCheck.videoId}, Title: "${existingCheck.title}")`
+        );
+      }
+
+      // Step 1: Fetch Vimeo data
+      update((prev) => ({
+        ...prev,
+        stage: 'fetching_vimeo',
+        statusText: 'Fetching Vimeo data...',
+        progress: 5,
+      }));
+
+      const vimeoData = await fetchVimeoData(vimeoId);
+      update((prev) => ({
+        ...prev,
+        vimeoData,
+        progress: 10,
+      }));
+
+      // Text tracks are listed up front so auto-transcription can be
+      // skipped when Vimeo already has captions in the target language
+      let textTracks: VimeoTextTrack[] = [];
+      if (options.importTextTracks) {
+        try {
+          textTracks = await fetchVimeoTextTracks(vimeoId);
+        } catch (trackError) {
+          console.warn('Failed to list Vimeo text tracks:', trackError);
+        }
+      }
+      const settings = resolveImportSettings(
+        importItem,
+        vimeoData,
+        textTracks,
+        categoryMappings
+      );
+      update((prev) => ({
+        ...prev,
+        folder: settings.folder,
+        appliedCategory: settings.appliedCategory,
+        appliedVisibility: settings.appliedVisibility,
+      }));
+
+      // Validate download links
+      if (!vimeoData.download || vimeoData.download.length === 0) {
+        throw new Error('No download links available.');
+      }
+
+      const candidates = rankRenditions(
+        vimeoData.download,
+        options.renditionPolicy
+      );
+      if (candidates.length === 0) {
+        throw new Error(
+          noRenditionMessage(vimeoData.download, options.renditionPolicy)
+        );
+      }
+
+      // Download and upload are reported as one transfer figure: every byte
+      // is counted once on the way in and once on the way out
+      let downloadedBytes = 0;
+      let uploadedBytes = 0;
+      const reportTransfer = (total: number, label: string) => {
+        const percent =
+          total > 0
+            ? Math.min(
+                100,
+                Math.round(
+                  ((downloadedBytes + uploadedBytes) / (total * 2)) * 100
+                )
+              )
+            : 0;
+        update((prev) => ({
+          ...prev,
+          progress: 15 + percent * 0.75,
+          statusText: `${label}... ${percent}% (${formatBytes(total)})`,
+        }));
+      };
+
+      // Saved chunk state, mirrored locally so fallbacks see the latest value
+      let savedOffset = importItem.downloadOffset;
+      let savedSize = importItem.downloadSize;
+
+      const downloadRendition = async (download: VimeoDownload) => {
+        // Pick up chunks saved by an interrupted attempt, as long as they
+        // belong to the same rendition
+        let resumeParts: Blob[] = [];
+        if (savedOffset > 0 && savedSize === download.size) {
+          resumeParts =
+            (await chunkStore.loadChunks(id, savedOffset).catch(() => null)) ||
+            [];
+        }
+        if (resumeParts.length === 0) {
+          await chunkStore.deleteChunks(id).catch(() => undefined);
+          savedOffset = 0;
+          savedSize = download.size;
+          update((prev) => ({
+            ...prev,
+            downloadOffset: 0,
+            downloadSize: download.size,
+          }));
+        }
+
+        downloadedBytes = 0;
+        const hasher = options.verifyContentHash ? createMd5() : undefined;
+        const videoBlob = await downloadInChunks(
+          downloadRelayUrl
+            ? toRelayUrl(downloadRelayUrl, download.link)
+            : download.link,
+          download.size,
+          download.type,
+          (loaded, total) => {
+            downloadedBytes = loaded;
+            reportTransfer(total, 'Downloading');
+          },
+          {
+            resumeParts,
+            hasher,
+            onChunk: async (offset, chunk) => {
+              await chunkStore.saveChunk(id, offset, chunk);
+              savedOffset = offset + chunk.size;
+              update((prev) => ({
+                ...prev,
+                downloadOffset: offset + chunk.size,
+              }));
+            },
+          }
+        );
+
+        try {
+          checkByteCount('Download', videoBlob.size, download.size);
+        } catch (sizeError) {
+          // The saved chunks may be what is wrong, start the next attempt
+          // from scratch
+          await chunkStore.deleteChunks(id).catch(() => undefined);
+          savedOffset = 0;
+          update((prev) => ({ ...prev, downloadOffset: 0 }));
+          throw sizeError;
+        }
+        return { videoBlob, md5: hasher ? hasher.digest() : null };
+      };
+
+      // Repeat a transfer whose byte count or hash did not match. Other
+      // errors are passed on to the rendition fallback.
+      const withIntegrityRetries = async <T>(
+        label: string,
+        attempt: () => Promise<T>
+      ): Promise<T> => {
+        for (let i = 1; ; i++) {
+          try {
+            return await attempt();
+          } catch (transferError) {
+            if (
+              !(transferError instanceof TransferIntegrityError) ||
+              i >= MAX_INTEGRITY_ATTEMPTS
+            ) {
+              throw transferError;
+            }
+            const { message } = transferError;
+            console.warn(`${label}: ${message}, retrying`);
+            update((prev) => ({
+              ...prev,
+              statusText: `${message} - retrying (${i}/${
+                MAX_INTEGRITY_ATTEMPTS - 1
+              })...`,
+            }));
+          }
+        }
+      };
+
+      // Run one transfer step for the preferred rendition, falling back to
+      // the next rendition in policy order if it fails
+      const withFallback = async <T>(
+        stage: ImportStage,
+        label: string,
+        attempt: (download: VimeoDownload) => Promise<T>
+      ): Promise<{ download: VimeoDownload; result: T }> => {
+        for (let i = 0; ; i++) {
+          const { download, reason } = candidates[i];
+          update((prev) => ({
+            ...prev,
+            stage,
+            statusText: `${label} (${formatBytes(download.size)})...`,
+            progress: 15,
+            selectedRendition: describeRendition(download),
+            renditionReason: i === 0 ? reason : `${reason} (fallback #${i})`,
+          }));
+
+          try {
+            return { download, result: await attempt(download) };
+          } catch (transferError) {
+            if (i === candidates.length - 1) throw transferError;
+            console.warn(
+              `${label} ${describeRendition(
+                download
+              )} failed, trying next rendition:`,
+              transferError
+            );
+          }
+        }
+      };
+
+      // Step 2: Download video from Vimeo in chunks. Streamed transfers
+      // skip this and move the file in step 4.
+      const downloaded = streamTransfer
+        ? null
+        : await withFallback('downloading', 'Downloading', (download) =>
+            withIntegrityRetries('Download', () => downloadRendition(download))
+          );
+
+      // Step 3: Create video in Ignite, or on retry get a new upload URL
+      // for the video created by the failed attempt
+      update((prev) => ({
+        ...prev,
+        stage: 'creating_video',
+        statusText: retryVideoId
+          ? 'Requesting new upload URL...'
+          : 'Creating video in Ignite...',
+      }));
+
+      const { videoId: igniteVideoId, signedUrl } = retryVideoId
+        ? {
+            videoId: retryVideoId,
+            ...(await ignite.requestUploadUrl(retryVideoId)),
+          }
+        : await ignite.createVideo(
+            buildCreatePayload(
+              vimeoData.name,
+              vimeoData.description,
+              vimeoId,
+              settings.createOptions,
+              settings.vimeoMetadata
+            )
+          );
+
+      update((prev) => ({
+        ...prev,
+        igniteVideoId,
+      }));
+
+      // Step 4: Upload video to signed URL
+      // The same signed URL is used again when an upload is repeated; a
+      // new PUT replaces what the last one stored
+      if (downloaded) {
+        const {
+          download,
+          result: { videoBlob, md5 },
+        } = downloaded;
+        update((prev) => ({
+          ...prev,
+          stage: 'uploading',
+          statusText: 'Uploading to Ignite...',
+          contentHash: md5,
+        }));
+
+        await withIntegrityRetries('Upload', async () => {
+          const receipt = await uploadToSignedUrl(
+            signedUrl,
+            videoBlob,
+            download.type,
+            (loaded) => {
+              uploadedBytes = loaded;
+              reportTransfer(videoBlob.size, 'Uploading');
+            }
+          );
+          verifyUpload(receipt, md5, videoBlob.size);
+        });
+      } else if (streamTransfer) {
+        await withFallback('uploading', 'Transferring', (download) =>
+          withIntegrityRetries('Transfer', async () => {
+            const receipt = await streamTransfer(
+              download.link,
+              download.size,
+              download.type,
+              signedUrl,
+              (loaded, total) => {
+                // Every byte is downloaded and uploaded at the same time
+                downloadedBytes = loaded;
+                uploadedBytes = loaded;
+                reportTransfer(total, 'Transferring');
+              },
+              options.verifyContentHash
+            );
+            verifyUpload(receipt, null, download.size);
+            update((prev) => ({ ...prev, contentHash: receipt.md5 }));
+          })
+        );
+      }
+
+      // Step 5: Attach Vimeo text tracks. A failed track does not fail the
+      // import, the video itself is already uploaded
+      if (textTracks.length > 0) {
+        update((prev) => ({
+          ...prev,
+          stage: 'uploading_text_tracks',
+          statusText: `Uploading ${textTracks.length} text track(s)...`,
+        }));
+
+        // Tracks attached by an earlier attempt are not uploaded twice
+        const importedTextTracks = [...importItem.importedTextTracks];
+        for (const track of textTracks) {
+          const trackLabel = track.name
+            ? `${track.language} · ${track.name}`
+            : track.language;
+          if (importedTextTracks.includes(trackLabel)) continue;
+
+          try {
+            const vttResponse = await axios.get(track.link, {
+              responseType: 'blob',
+            });
+            await uploadTextTrack(
+              igniteVideoId,
+              vttResponse.data as Blob,
+              track
+            );
+            importedTextTracks.push(trackLabel);
+          } catch (trackError) {
+            console.warn(
+              `Failed to import text track ${track.language}:`,
+              trackError
+            );
+          }
+        }
+
+        update((prev) => ({ ...prev, importedTextTracks }));
+      }
+
+      // The file is stored in Ignite now, saved chunks are no longer needed
+      await chunkStore.deleteChunks(id).catch(() => undefined);
+      update((prev) => ({
+        ...prev,
+        downloadOffset: 0,
+        downloadSize: null,
+      }));
+
+      // Step 6: Store thumbnail URL for upload after encoding completes
+      const pendingThumbnailUrl = largestPictureUrl(vimeoData.pictures);
+
+      // Step 7: Hand over to encoding status polling
+      // Thumbnail will be uploaded after encoding completes
+      update((prev) => ({
+        ...prev,
+        stage: 'polling',
+        statusText: 'Processing...',
+        progress: 95,
+        pendingThumbnailUrl,
+      }));
+
+      return igniteVideoId;
+    } catch (error) {
+      const errorMessage = extractAxiosError(error);
+      update((prev) => ({
+        ...prev,
+        stage: 'error',
+        errorMessage,
+        statusText: 'Failed',
+        failedStage: prev.stage,
+      }));
+      return null;
+    }
+  };
+
+  // Check the encoding status of an item in 'polling' once. When encoding
+  // is done the pending thumbnail is uploaded and the item completed.
+  // `getItem` is read after the status request so the thumbnail URL is the
+  // latest one. Resolves to true once polling can stop.
+  const checkEncoding = async (
+    videoId: string,
+    getItem: () => ImportItem | undefined,
+    update: ImportItemUpdater
+  ): Promise<boolean> => {
+    try {
+      const video = await ignite.getVideo(videoId);
+      const status = (video.status || '').toString().toUpperCase();
+
+      update((prev) => ({
+        ...prev,
+        statusText: `Processing: ${status}`,
+      }));
+
+      if (ENCODING_ERROR_STATUSES.includes(status)) {
+        update((prev) => ({
+          ...prev,
+          stage: 'error',
+          errorMessage: `Encoding failed: ${status}`,
+          failedStage: 'polling',
+        }));
+        return true;
+      }
+      if (!isEncoded(video)) return false;
+    } catch (error) {
+      // Retrying cannot fix these; anything else is checked again later
+      if (
+        error instanceof IgniteAuthError ||
+        error instanceof IgniteForbiddenError ||
+        error instanceof IgniteNotFoundError
+      ) {
+        const { message } = error;
+        update((prev) => ({
+          ...prev,
+          stage: 'error',
+          errorMessage: message,
+          failedStage: 'polling',
+        }));
+        return true;
+      }
+      console.error('Poll error:', error);
+      return false;
+    }
+
+    const pendingThumbnailUrl = getItem()?.pendingThumbnailUrl;
+    if (!pendingThumbnailUrl) {
+      update((prev) => ({
+        ...prev,
+        stage: 'complete',
+        statusText: 'Import complete!',
+        progress: 100,
+      }));
+      return true;
+    }
+
+    update((prev) => ({
+      ...prev,
+      stage: 'uploading_thumbnail',
+      statusText: 'Uploading thumbnail...',
+      progress: 98,
+    }));
+
+    try {
+      // Fetch thumbnail from Vimeo
+      const thumbResponse = await axios.get(pendingThumbnailUrl, {
+        responseType: 'blob',
+      });
+
+      // Upload to Ignite
+      const uploadedThumbUrl = await ignite.uploadThumbnail(
+        videoId,
+        thumbResponse.data as Blob
+      );
+
+      update((prev) => ({
+        ...prev,
+        stage: 'complete',
+        statusText: 'Import complete!',
+        progress: 100,
+        thumbnailUrl: uploadedThumbUrl,
+        pendingThumbnailUrl: null,
+      }));
+    } catch (thumbError) {
+      console.warn('Thumbnail upload failed after encoding:', thumbError);
+      // Still mark as complete, just without thumbnail
+      update((prev) => ({
+        ...prev,
+        stage: 'complete',
+        statusText: 'Complete (thumbnail failed)',
+        progress: 100,
+        pendingThumbnailUrl: null,
+      }));
+    }
+    return true;
+  };
+
+  return {
+    fetchVimeoData,
+    fetchVimeoTextTracks,
+    checkExistingVimeoImport,
+    runImport,
+    checkEncoding,
+    applyResync,
+  };
+};
+
+export type ImportEngine = ReturnType<typeof createImportEngine>;
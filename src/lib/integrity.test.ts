@@ -0,0 +1,141 @@
+import {
+  TransferIntegrityError,
+  checkByteCount,
+  createMd5,
+  etagMd5,
+  verifyUpload,
+} from './integrity';
+
+const bytes = (text: string) =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const md5 = (text: string) => {
+  const hasher = createMd5();
+  hasher.update(bytes(text));
+  return hasher.digest();
+};
+
+// Feed `text` in pieces of the given sizes, cycling through them
+const md5InPieces = (text: string, sizes: number[]) => {
+  const data = bytes(text);
+  const hasher = createMd5();
+  for (let offset = 0, i = 0; offset < data.length; i++) {
+    const size = sizes[i % sizes.length];
+    hasher.update(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  return hasher.digest();
+};
+
+const ALPHANUMERIC =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const DIGITS = '1234567890'.repeat(8);
+
+describe('createMd5', () => {
+  // Test suite of RFC 1321
+  it.each([
+    ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ['a', '0cc175b9c0f1b6a831c399e269772661'],
+    ['abc', '900150983cd24fb0d6963f7d28e17f72'],
+    ['message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+    ['abcdefghijklmnopqrstuvwxyz', 'c3fcd3d76192e4007dfb496cca67e13b'],
+    [ALPHANUMERIC, 'd174ab98d277d9f5a5611c2c9f419d9f'],
+    [DIGITS, '57edf4a22be3c955ac49da2e2107b67a'],
+  ])('hashes %j', (text, expected) => {
+    expect(md5(text)).toBe(expected);
+  });
+
+  it('hashes input split at odd boundaries like the whole input', () => {
+    expect(md5InPieces(DIGITS, [1])).toBe(md5(DIGITS));
+    expect(md5InPieces(DIGITS, [3, 61, 7])).toBe(md5(DIGITS));
+    expect(md5InPieces(DIGITS, [63, 1, 17])).toBe(md5(DIGITS));
+    expect(md5InPieces(ALPHANUMERIC, [55, 7])).toBe(md5(ALPHANUMERIC));
+  });
+
+  it('pads correctly around the 56-byte boundary', () => {
+    // 55, 56 and 64 bytes need one or two padding blocks
+    expect(md5('a'.repeat(55))).toBe('ef1772b6dff9a122358552954ad0df65');
+    expect(md5('a'.repeat(56))).toBe('3b0c8ac703f828b04c6c197006d17218');
+    expect(md5('a'.repeat(64))).toBe('014842d480b571495a4a0363793f7367');
+  });
+
+  it('hashes a million bytes fed in uneven chunks', () => {
+    const text = 'a'.repeat(1000000);
+    expect(md5InPieces(text, [4093, 65537, 1])).toBe(
+      '7707d6ae4e027c70eea2a935c2296f21'
+    );
+  });
+});
+
+describe('checkByteCount', () => {
+  it('accepts a matching count and an unknown expected size', () => {
+    expect(() => checkByteCount('Download', 10, 10)).not.toThrow();
+    expect(() => checkByteCount('Download', 10, 0)).not.toThrow();
+  });
+
+  it('throws a TransferIntegrityError on a mismatch', () => {
+    expect(() => checkByteCount('Download', 9, 10)).toThrow(
+      new TransferIntegrityError('Download size mismatch: 9 of 10 bytes')
+    );
+  });
+});
+
+describe('etagMd5', () => {
+  it('reads a quoted or weak single-part ETag', () => {
+    expect(etagMd5('"900150983CD24FB0D6963F7D28E17F72"')).toBe(
+      '900150983cd24fb0d6963f7d28e17f72'
+    );
+    expect(etagMd5('W/"900150983cd24fb0d6963f7d28e17f72"')).toBe(
+      '900150983cd24fb0d6963f7d28e17f72'
+    );
+  });
+
+  it('ignores multipart and missing ETags', () => {
+    expect(etagMd5('"900150983cd24fb0d6963f7d28e17f72-3"')).toBeNull();
+    expect(etagMd5(null)).toBeNull();
+  });
+});
+
+describe('verifyUpload', () => {
+  const hash = '900150983cd24fb0d6963f7d28e17f72';
+
+  it('passes when the hashes match or one is unknown', () => {
+    expect(() =>
+      verifyUpload({ etag: `"${hash}"`, md5: null, storedSize: null }, hash, 3)
+    ).not.toThrow();
+    expect(() =>
+      verifyUpload({ etag: null, md5: null, storedSize: null }, hash, 3)
+    ).not.toThrow();
+    expect(() =>
+      verifyUpload({ etag: `"${hash}"`, md5: null, storedSize: null }, null, 3)
+    ).not.toThrow();
+  });
+
+  it('uses the hash computed during the upload', () => {
+    expect(() =>
+      verifyUpload(
+        { etag: `"${hash}"`, md5: 'f'.repeat(32), storedSize: null },
+        null,
+        3
+      )
+    ).toThrow(TransferIntegrityError);
+  });
+
+  it('checks the stored size when the storage reports it', () => {
+    const receipt = { etag: null, md5: null, storedSize: 3 };
+    expect(() => verifyUpload(receipt, null, 3)).not.toThrow();
+    expect(() => verifyUpload(receipt, null, 4)).toThrow(
+      new TransferIntegrityError('Upload size mismatch: 3 of 4 bytes')
+    );
+  });
+
+  it('throws when the stored object differs', () => {
+    expect(() =>
+      verifyUpload(
+        { etag: `"${'0'.repeat(32)}"`, md5: null, storedSize: null },
+        hash,
+        3
+      )
+    ).toThrow(/Content hash mismatch/);
+  });
+});
@@ -0,0 +1,183 @@
+// Checks that a transferred file arrived in full: the byte count of the
+// download against the size Vimeo reported, the size of the stored object
+// (read back after the upload) against the file, and optionally an MD5 of
+// the content, computed while the file streams through and compared with
+// the ETag of the stored object (S3 returns the MD5 of single-part uploads
+// as the ETag).
+
+// Blobs are hashed in slices of this size
+const HASH_SLICE_SIZE = 8 * 1024 * 1024;
+
+// A transfer moved a different number of bytes than expected, or the
+// stored content does not match. The transfer is worth repeating.
+export class TransferIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferIntegrityError';
+  }
+}
+
+// What an upload to the signed URL reported back
+export interface UploadReceipt {
+  etag: string | null; // ETag of the stored object, if readable
+  md5: string | null; // MD5 of the bytes sent, if hashed on the way
+  storedSize: number | null; // Size of the stored object, if readable
+}
+
+export interface ContentHasher {
+  update: (data: Uint8Array) => void;
+  digest: () => string; // Lowercase hex
+}
+
+// Throw unless `received` matches `expected`. An `expected` of 0 means the
+// size is unknown and is not checked.
+export const checkByteCount = (
+  label: string,
+  received: number,
+  expected: number
+) => {
+  if (expected > 0 && received !== expected) {
+    throw new TransferIntegrityError(
+      `${label} size mismatch: ${received} of ${expected} bytes`
+    );
+  }
+};
+
+// MD5 in an ETag header, or null for multipart ("<md5>-<parts>") and
+// other ETags that are not a plain MD5
+export const etagMd5 = (etag: string | null): string | null => {
+  const value = (etag || '').replace(/^W\//, '').replace(/"/g, '').trim();
+  return /^[0-9a-f]{32}$/i.test(value) ? value.toLowerCase() : null;
+};
+
+// Compare the stored object with the file: its size whenever the storage
+// reported one, and its MD5 when both hashes are known
+export const verifyUpload = (
+  receipt: UploadReceipt,
+  md5: string | null,
+  expectedSize: number
+) => {
+  if (receipt.storedSize !== null) {
+    checkByteCount('Upload', receipt.storedSize, expectedSize);
+  }
+  const storedMd5 = etagMd5(receipt.etag);
+  const sentMd5 = md5 || receipt.md5;
+  if (storedMd5 && sentMd5 && storedMd5 !== sentMd5) {
+    throw new TransferIntegrityError(
+      `Content hash mismatch: stored file has MD5 ${storedMd5}, expected ${sentMd5}`
+    );
+  }
+};
+
+// Per-round shift amounts and sine-derived constants of MD5 (RFC 1321)
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+const CONSTANTS = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0
+);
+
+// Incremental MD5, so a file can be hashed chunk by chunk as it downloads.
+// WebCrypto only hashes whole buffers and has no MD5.
+export const createMd5 = (): ContentHasher => {
+  const state = new Uint32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476,
+  ]);
+  const words = new Uint32Array(16);
+  const pending = new Uint8Array(64); // Bytes short of a full block
+  let pendingLength = 0;
+  let length = 0;
+
+  const processBlock = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] =
+        data[j] |
+        (data[j + 1] << 8) |
+        (data[j + 2] << 16) |
+        (data[j + 3] << 24);
+    }
+
+    let a = state[0];
+    let b = state[1];
+    let c = state[2];
+    let d = state[3];
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+  };
+
+  const update = (data: Uint8Array) => {
+    length += data.length;
+    let i = 0;
+    if (pendingLength > 0) {
+      i = Math.min(64 - pendingLength, data.length);
+      pending.set(data.subarray(0, i), pendingLength);
+      pendingLength += i;
+      if (pendingLength < 64) return;
+      processBlock(pending, 0);
+      pendingLength = 0;
+    }
+    for (; i + 64 <= data.length; i += 64) processBlock(data, i);
+    if (i < data.length) {
+      pending.set(data.subarray(i));
+      pendingLength = data.length - i;
+    }
+  };
+
+  const digest = (): string => {
+    // Message length in bits as a little-endian 64-bit number
+    const lengthBytes = new Uint8Array(8);
+    const low = (length % 0x20000000) * 8;
+    const high = Math.floor(length / 0x20000000);
+    for (let i = 0; i < 4; i++) {
+      lengthBytes[i] = (low >>> (i * 8)) & 0xff;
+      lengthBytes[i + 4] = (high >>> (i * 8)) & 0xff;
+    }
+    const padding = new Uint8Array(((55 - pendingLength + 64) % 64) + 1);
+    padding[0] = 0x80;
+    update(padding);
+    update(lengthBytes);
+
+    return Array.from(new Uint8Array(state.buffer))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  };
+
+  return { update, digest };
+};
+
+// Feed a Blob to a hasher without reading it into memory at once
+export const hashBlob = async (hasher: ContentHasher, blob: Blob) => {
+  for (let offset = 0; offset < blob.size; offset += HASH_SLICE_SIZE) {
+    const slice = blob.slice(offset, offset + HASH_SLICE_SIZE);
+    hasher.update(new Uint8Array(await slice.arrayBuffer()));
+  }
+};
@@ -0,0 +1,87 @@
+import { IgniteVideoDoc } from './igniteApi';
+import { findOrphans } from './orphans';
+
+// isEncoded comes from the lookup module, which loads the Ignite client
+jest.mock('axios', () => ({ __esModule: true, default: {} }));
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const HOUR = 3600 * 1000;
+
+const video = (
+  id: string,
+  status: string | null,
+  ageHours: number | null = 48
+): IgniteVideoDoc => ({
+  id,
+  title: `Video ${id}`,
+  status,
+  createdAt:
+    ageHours === null
+      ? undefined
+      : new Date(NOW - ageHours * HOUR).toISOString(),
+  customMetadata: { vimeoId: `vimeo-${id}` },
+});
+
+const orphanIds = (docs: IgniteVideoDoc[], activeIds: string[] = []) =>
+  findOrphans(docs, {
+    minAgeHours: 24,
+    activeIgniteIds: new Set(activeIds),
+    now: NOW,
+  }).map((orphan) => orphan.igniteId);
+
+describe('findOrphans', () => {
+  it('skips encoded videos in any spelling', () => {
+    expect(
+      orphanIds([
+        video('a', 'COMPLETE'),
+        video('b', 'ready'),
+        video('c', 'Encoded'),
+      ])
+    ).toEqual([]);
+  });
+
+  it('explains why a video is orphaned', () => {
+    expect(
+      findOrphans(
+        [video('a', null), video('b', 'failed'), video('c', 'PROCESSING')],
+        { minAgeHours: 24, activeIgniteIds: new Set(), now: NOW }
+      ).map(({ igniteId, status, reason }) => [igniteId, status, reason])
+    ).toEqual([
+      ['a', 'NONE', 'No file uploaded'],
+      ['b', 'FAILED', 'Encoding failed'],
+      ['c', 'PROCESSING', 'Stuck in PROCESSING'],
+    ]);
+  });
+
+  it('leaves recent videos alone until the minimum age', () => {
+    expect(
+      orphanIds([video('a', null, 23), video('b', null, 24), video('c', null)])
+    ).toEqual(['b', 'c']);
+  });
+
+  it('reports videos without a readable creation date', () => {
+    expect(orphanIds([video('a', null, null)])).toEqual(['a']);
+  });
+
+  it('leaves videos the queue is still working on alone', () => {
+    expect(orphanIds([video('a', null), video('b', null)], ['a'])).toEqual([
+      'b',
+    ]);
+  });
+
+  it('carries the Vimeo ID and creation date', () => {
+    const [orphan] = findOrphans([video('a', 'ERROR')], {
+      minAgeHours: 24,
+      activeIgniteIds: new Set(),
+      now: NOW,
+    });
+    expect(orphan).toEqual({
+      igniteId: 'a',
+      vimeoId: 'vimeo-a',
+      title: 'Video a',
+      status: 'ERROR',
+      createdAt: '2026-10-17T12:00:00.000Z',
+      reason: 'Encoding failed',
+    });
+  });
+});
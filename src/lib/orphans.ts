@@ -0,0 +1,50 @@
+import { IgniteVideoDoc } from './igniteApi';
+import { isEncoded } from './igniteLookup';
+
+// Ignite videos left behind by imports that failed after the video was
+// created: no file was ever uploaded, or encoding never finished
+
+const FAILED_STATUSES = ['FAILED', 'ERROR'];
+
+export interface OrphanedVideo {
+  igniteId: string;
+  vimeoId: string;
+  title: string;
+  status: string;
+  createdAt: string | null;
+  reason: string;
+}
+
+interface FindOrphansOptions {
+  // Videos younger than this may still be uploading or encoding
+  minAgeHours: number;
+  // Ignite videos the local queue is still working on
+  activeIgniteIds: Set<string>;
+  now?: number;
+}
+
+export const findOrphans = (
+  docs: IgniteVideoDoc[],
+  { minAgeHours, activeIgniteIds, now = Date.now() }: FindOrphansOptions
+): OrphanedVideo[] =>
+  docs
+    .filter((doc) => !isEncoded(doc) && !activeIgniteIds.has(doc.id))
+    .filter((doc) => {
+      const created = doc.createdAt ? Date.parse(doc.createdAt) : NaN;
+      return isNaN(created) || now - created >= minAgeHours * 3600 * 1000;
+    })
+    .map((doc) => {
+      const status = (doc.status || '').toString().toUpperCase();
+      return {
+        igniteId: doc.id,
+        vimeoId: doc.customMetadata?.vimeoId || '',
+        title: doc.title,
+        status: status || 'NONE',
+        createdAt: doc.createdAt || null,
+        reason: !status
+          ? 'No file uploaded'
+          : FAILED_STATUSES.includes(status)
+          ? 'Encoding failed'
+          : `Stuck in ${status}`,
+      };
+    });
@@ -0,0 +1,137 @@
+import { QUEUE_STORE, openDb, promisify, transactionDone } from './db';
+import { ImportItem } from './importEngine';
+
+// IndexedDB store for the import queue, one record per item. Changed items
+// are collected and written together at most once per FLUSH_INTERVAL_MS, so
+// progress updates do not rewrite the whole queue.
+
+// Where the queue was kept before, moved to IndexedDB on first load
+const LEGACY_STORAGE_KEY = 'vimeo_import_queue';
+const FLUSH_INTERVAL_MS = 1000;
+
+interface QueueRecord {
+  id: string;
+  // Newer items have a higher order; the queue lists them first
+  order: number;
+  item: ImportItem;
+}
+
+// Last saved version of every item, compared by identity to find changes
+let saved = new Map<string, ImportItem>();
+const orders = new Map<string, number>();
+let lastOrder = 0;
+// Records to write (null: delete) at the next flush
+const pending = new Map<string, QueueRecord | null>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const toRecords = (items: ImportItem[]): QueueRecord[] =>
+  // Oldest first, so the order keeps increasing
+  items
+    .slice()
+    .reverse()
+    .map((item) => {
+      let order = orders.get(item.id);
+      if (order === undefined) {
+        order = ++lastOrder;
+        orders.set(item.id, order);
+      }
+      return { id: item.id, order, item };
+    });
+
+const writeRecords = async (
+  puts: QueueRecord[],
+  deletes: string[]
+): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = transaction.objectStore(QUEUE_STORE);
+  puts.forEach((record) => store.put(record));
+  deletes.forEach((id) => store.delete(id));
+  await transactionDone(transaction);
+};
+
+// Queue as it was kept in localStorage, if any
+const readLegacyQueue = (): ImportItem[] | null => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.warn('Failed to parse stored imports:', e);
+    return null;
+  }
+};
+
+// Load the saved queue, newest first. The first time this moves the
+// localStorage queue into IndexedDB.
+export const loadQueue = async (): Promise<ImportItem[]> => {
+  const db = await openDb();
+  const records = (await promisify(
+    db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll()
+  )) as QueueRecord[];
+
+  let items: ImportItem[];
+  if (records.length > 0) {
+    records.sort((a, b) => b.order - a.order);
+    records.forEach((record) => orders.set(record.id, record.order));
+    lastOrder = records[0].order;
+    items = records.map((record) => record.item);
+  } else {
+    items = readLegacyQueue() || [];
+    if (items.length > 0) await writeRecords(toRecords(items), []);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+  saved = new Map(items.map((item) => [item.id, item]));
+  return items;
+};
+
+// Write everything collected so far
+export const flushQueue = async (): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pending.size === 0) return;
+
+  const puts: QueueRecord[] = [];
+  const deletes: string[] = [];
+  pending.forEach((record, id) => {
+    if (record) {
+      puts.push(record);
+    } else {
+      deletes.push(id);
+    }
+  });
+  pending.clear();
+
+  try {
+    await writeRecords(puts, deletes);
+  } catch (e) {
+    console.warn('Failed to save import queue:', e);
+  }
+};
+
+// Record the current queue; only added, changed and removed items are
+// written, on the next flush
+export const saveQueue = (items: ImportItem[]) => {
+  const current = new Map<string, ImportItem>();
+  const changed: ImportItem[] = [];
+  items.forEach((item) => {
+    current.set(item.id, item);
+    if (saved.get(item.id) !== item) changed.push(item);
+  });
+
+  toRecords(changed).forEach((record) => pending.set(record.id, record));
+  saved.forEach((_, id) => {
+    if (!current.has(id)) {
+      pending.set(id, null);
+      orders.delete(id);
+    }
+  });
+  saved = current;
+
+  if (pending.size > 0 && !flushTimer) {
+    flushTimer = setTimeout(flushQueue, FLUSH_INTERVAL_MS);
+  }
+};
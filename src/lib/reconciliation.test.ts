@@ -0,0 +1,107 @@
+import { IgniteVideoDoc } from './igniteApi';
+import { ReconcileVimeoVideo, reconcile } from './reconciliation';
+
+const vimeo = (
+  vimeoId: string,
+  title: string,
+  duration: number | null = 60
+): ReconcileVimeoVideo => ({ vimeoId, title, duration, folderPath: null });
+
+const ignite = (
+  id: string,
+  vimeoId: string | null,
+  title: string,
+  duration?: number
+): IgniteVideoDoc => ({
+  id,
+  title,
+  duration,
+  customMetadata: vimeoId ? { vimeoId } : {},
+});
+
+describe('reconcile', () => {
+  it('finds videos missing in Ignite and deleted on Vimeo', () => {
+    const report = reconcile(
+      [vimeo('1', 'One'), vimeo('2', 'Two')],
+      [
+        ignite('a', '1', 'One'),
+        ignite('b', '3', 'Three'),
+        ignite('c', null, 'Own'),
+      ]
+    );
+    expect(report.vimeoCount).toBe(2);
+    expect(report.igniteCount).toBe(3);
+    expect(report.missingInIgnite.map((v) => v.vimeoId)).toEqual(['2']);
+    // Videos uploaded to Ignite directly (no vimeoId) are not reported
+    expect(report.deletedOnVimeo.map((doc) => doc.id)).toEqual(['b']);
+    expect(report.duplicates).toEqual([]);
+    expect(report.mismatches).toEqual([]);
+  });
+
+  it('lists Vimeo videos imported more than once', () => {
+    const report = reconcile(
+      [vimeo('1', 'One')],
+      [ignite('a', '1', 'One'), ignite('b', '1', 'One')]
+    );
+    expect(report.duplicates).toEqual([
+      { vimeoId: '1', title: 'One', igniteIds: ['a', 'b'] },
+    ]);
+  });
+
+  it('names duplicates deleted on Vimeo after the Ignite title', () => {
+    const report = reconcile(
+      [],
+      [ignite('a', '9', 'Gone'), ignite('b', '9', 'Gone again')]
+    );
+    expect(report.duplicates[0].title).toBe('Gone');
+  });
+
+  it('compares titles after the 100-character cut and trimming', () => {
+    const long = 'x'.repeat(120);
+    const report = reconcile(
+      [vimeo('1', long), vimeo('2', ' Padded '), vimeo('3', 'Old')],
+      [
+        ignite('a', '1', long.substring(0, 100)),
+        ignite('b', '2', 'Padded'),
+        ignite('c', '3', 'New'),
+      ]
+    );
+    expect(report.mismatches).toEqual([
+      {
+        vimeoId: '3',
+        igniteId: 'c',
+        field: 'title',
+        vimeoValue: 'Old',
+        igniteValue: 'New',
+      },
+    ]);
+  });
+
+  it('allows a duration difference of up to 2 seconds', () => {
+    const report = reconcile(
+      [vimeo('1', 'One', 60), vimeo('2', 'Two', 60), vimeo('3', 'Three', 60)],
+      [
+        ignite('a', '1', 'One', 62),
+        ignite('b', '2', 'Two', 62.6),
+        ignite('c', '3', 'Three'), // Not encoded yet
+      ]
+    );
+    expect(report.mismatches).toEqual([
+      {
+        vimeoId: '2',
+        igniteId: 'b',
+        field: 'duration',
+        vimeoValue: '60',
+        igniteValue: '63',
+      },
+    ]);
+  });
+
+  it('skips the duration check when Vimeo has none', () => {
+    const report = reconcile(
+      [vimeo('1', 'One', null)],
+      [ignite('a', '1', 'One', 500)]
+    );
+    expect(report.mismatches).toEqual([]);
+  });
+});
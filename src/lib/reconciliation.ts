@@ -0,0 +1,120 @@
+import { IgniteVideoDoc } from './igniteApi';
+
+// Comparison of the scanned Vimeo library with the Ignite videos that carry a
+// customMetadata.vimeoId
+
+// Durations closer than this are treated as equal (Vimeo rounds to seconds)
+const DURATION_TOLERANCE_SECONDS = 2;
+// Ignite titles are cut to this length on import
+const MAX_TITLE_LENGTH = 100;
+
+export interface ReconcileVimeoVideo {
+  vimeoId: string;
+  title: string;
+  duration: number | null;
+  folderPath: string | null;
+}
+
+export interface DuplicateImport {
+  vimeoId: string;
+  title: string; // Vimeo title, or the Ignite title if deleted on Vimeo
+  igniteIds: string[];
+}
+
+export interface ReconcileMismatch {
+  vimeoId: string;
+  igniteId: string;
+  field: 'title' | 'duration';
+  vimeoValue: string;
+  igniteValue: string;
+}
+
+export interface ReconciliationReport {
+  vimeoCount: number;
+  igniteCount: number;
+  missingInIgnite: ReconcileVimeoVideo[];
+  deletedOnVimeo: IgniteVideoDoc[];
+  duplicates: DuplicateImport[];
+  mismatches: ReconcileMismatch[];
+}
+
+const normalizeTitle = (title: string): string =>
+  title.trim().substring(0, MAX_TITLE_LENGTH).trim();
+
+export const reconcile = (
+  vimeoVideos: ReconcileVimeoVideo[],
+  igniteDocs: IgniteVideoDoc[]
+): ReconciliationReport => {
+  // Group Ignite videos by the Vimeo ID they were imported from
+  const igniteByVimeoId = new Map<string, IgniteVideoDoc[]>();
+  igniteDocs.forEach((doc) => {
+    const vimeoId = doc.customMetadata?.vimeoId;
+    if (!vimeoId) return;
+    igniteByVimeoId.set(vimeoId, [
+      ...(igniteByVimeoId.get(vimeoId) || []),
+      doc,
+    ]);
+  });
+  const vimeoById = new Map(vimeoVideos.map((v) => [v.vimeoId, v]));
+
+  const missingInIgnite = vimeoVideos.filter(
+    (v) => !igniteByVimeoId.has(v.vimeoId)
+  );
+
+  const deletedOnVimeo = igniteDocs.filter((doc) => {
+    const vimeoId = doc.customMetadata?.vimeoId;
+    return vimeoId && !vimeoById.has(vimeoId);
+  });
+
+  const duplicates: DuplicateImport[] = [];
+  igniteByVimeoId.forEach((docs, vimeoId) => {
+    if (docs.length < 2) return;
+    duplicates.push({
+      vimeoId,
+      title: vimeoById.get(vimeoId)?.title || docs[0].title,
+      igniteIds: docs.map((d) => d.id),
+    });
+  });
+
+  const mismatches: ReconcileMismatch[] = [];
+  igniteByVimeoId.forEach((docs, vimeoId) => {
+    const vimeo = vimeoById.get(vimeoId);
+    if (!vimeo) return;
+
+    docs.forEach((doc) => {
+      if (normalizeTitle(vimeo.title) !== normalizeTitle(doc.title || '')) {
+        mismatches.push({
+          vimeoId,
+          igniteId: doc.id,
+          field: 'title',
+          vimeoValue: vimeo.title,
+          igniteValue: doc.title || '',
+        });
+      }
+
+      // Only compare durations Ignite already knows (set after encoding)
+      if (
+        vimeo.duration !== null &&
+        typeof doc.duration === 'number' &&
+        Math.abs(vimeo.duration - doc.duration) > DURATION_TOLERANCE_SECONDS
+      ) {
+        mismatches.push({
+          vimeoId,
+          igniteId: doc.id,
+          field: 'duration',
+          vimeoValue: String(vimeo.duration),
+          igniteValue: String(Math.round(doc.duration)),
+        });
+      }
+    });
+  });
+
+  return {
+    vimeoCount: vimeoVideos.length,
+    igniteCount: igniteDocs.length,
+    missingInIgnite,
+    deletedOnVimeo,
+    duplicates,
+    mismatches,
+  };
+};
@@ -0,0 +1,31 @@
+// Local download relay: streams Vimeo download URLs with CORS headers for
+// browsers that are blocked from reading them directly. The server lives in
+// src/server; this module is shared by the server and the web UI.
+
+// Address of the local server (npm run server), also used for server-side
+// imports
+export const DEFAULT_SERVER_URL = 'http://localhost:8787';
+export const RELAY_PATH = '/relay';
+
+// Hosts the relay fetches from. Vimeo download links point to
+// player.vimeo.com and redirect to the Vimeo or Akamai CDN.
+const ALLOWED_HOST_SUFFIXES = ['vimeo.com', 'vimeocdn.com', 'akamaized.net'];
+
+// Whether the relay may fetch this URL (https only, allow-listed host)
+export const isAllowedRelayTarget = (url: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === 'https:' &&
+      ALLOWED_HOST_SUFFIXES.some(
+        (suffix) => hostname === suffix || hostname.endsWith(`.${suffix}`)
+      )
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Address of a download URL behind the relay
+export const toRelayUrl = (relayUrl: string, link: string): string =>
+  `${relayUrl.replace(/\/$/, '')}${RELAY_PATH}?url=${encodeURIComponent(link)}`;
@@ -0,0 +1,127 @@
+import {
+  DEFAULT_RENDITION_POLICY,
+  RenditionPolicy,
+  VimeoDownload,
+  noRenditionMessage,
+  rankRenditions,
+} from './renditions';
+
+const MB = 1024 * 1024;
+
+const rendition = (
+  name: string,
+  height: number,
+  sizeMB: number,
+  type = 'video/mp4'
+): VimeoDownload => ({
+  quality: name === 'source' ? 'source' : 'hd',
+  type,
+  width: Math.round((height * 16) / 9),
+  height,
+  size: sizeMB * MB,
+  link: `https://vimeo.com/download/${name}`,
+  public_name: name,
+  rendition: name,
+});
+
+const source = rendition('source', 2160, 4000, 'video/quicktime');
+const uhd = rendition('2160p', 2160, 3000);
+const fhd = rendition('1080p', 1080, 900);
+const hd = rendition('720p', 720, 400);
+const sd = rendition('540p', 540, 200, 'video/webm');
+const downloads = [sd, source, fhd, uhd, hd];
+
+const policy = (changes: Partial<RenditionPolicy>): RenditionPolicy => ({
+  ...DEFAULT_RENDITION_POLICY,
+  ...changes,
+});
+
+const names = (policyChanges: Partial<RenditionPolicy>) =>
+  rankRenditions(downloads, policy(policyChanges)).map(
+    (candidate) => candidate.download.public_name
+  );
+
+describe('rankRenditions', () => {
+  it('prefers the largest non-source rendition by default', () => {
+    expect(names({ mode: 'largest' })).toEqual([
+      '2160p',
+      '1080p',
+      '720p',
+      '540p',
+    ]);
+  });
+
+  it('puts the source first and falls back to the largest rendition', () => {
+    expect(names({ mode: 'source' })).toEqual([
+      'source',
+      '2160p',
+      '1080p',
+      '720p',
+      '540p',
+    ]);
+    expect(
+      rankRenditions([hd, fhd], policy({ mode: 'source' }))[0].reason
+    ).toBe('No source file, largest rendition');
+  });
+
+  it('never returns renditions above the height cap', () => {
+    expect(names({ mode: 'max_height', maxHeight: 1080 })).toEqual([
+      '1080p',
+      '720p',
+      '540p',
+    ]);
+    expect(names({ mode: 'max_height', maxHeight: 480 })).toEqual([]);
+  });
+
+  it('never returns renditions above the size cap', () => {
+    expect(names({ mode: 'max_size', maxSizeMB: 500 })).toEqual([
+      '720p',
+      '540p',
+    ]);
+    // Exactly at the cap still fits
+    expect(names({ mode: 'max_size', maxSizeMB: 400 })).toEqual([
+      '720p',
+      '540p',
+    ]);
+    expect(names({ mode: 'max_size', maxSizeMB: 100 })).toEqual([]);
+  });
+
+  it('ranks the preferred type first, then other types', () => {
+    expect(names({ mode: 'type', preferredType: 'video/webm' })).toEqual([
+      '540p',
+      '2160p',
+      '1080p',
+      '720p',
+    ]);
+  });
+
+  it('returns nothing without downloads', () => {
+    expect(rankRenditions([], DEFAULT_RENDITION_POLICY)).toEqual([]);
+  });
+});
+
+describe('noRenditionMessage', () => {
+  it('names the lowest available height', () => {
+    expect(
+      noRenditionMessage(
+        downloads,
+        policy({ mode: 'max_height', maxHeight: 480 })
+      )
+    ).toMatch(/^No rendition up to 480p \(the lowest is 540p\)/);
+  });
+
+  it('names the smallest available size', () => {
+    expect(
+      noRenditionMessage(
+        downloads,
+        policy({ mode: 'max_size', maxSizeMB: 100 })
+      )
+    ).toMatch(/^No rendition up to 100 MB \(the smallest is 200 MB\)/);
+  });
+
+  it('falls back to a general message', () => {
+    expect(noRenditionMessage([source], policy({ mode: 'largest' }))).toBe(
+      'No suitable download rendition found.'
+    );
+  });
+});
@@ -0,0 +1,142 @@
+// Rendition selection for Vimeo downloads
+
+export interface VimeoDownload {
+  quality: string;
+  type: string;
+  width: number;
+  height: number;
+  size: number;
+  link: string;
+  public_name: string;
+  rendition: string;
+}
+
+export type RenditionMode =
+  | 'largest' // Largest non-source rendition (default)
+  | 'source' // Source/original file first
+  | 'max_height' // Highest rendition at or below maxHeight
+  | 'max_size' // Largest rendition at or below maxSizeMB
+  | 'type'; // Largest rendition of preferredType
+
+export const RENDITION_MODES: RenditionMode[] = [
+  'largest',
+  'source',
+  'max_height',
+  'max_size',
+  'type',
+];
+
+export interface RenditionPolicy {
+  mode: RenditionMode;
+  maxHeight: number;
+  maxSizeMB: number;
+  preferredType: string;
+}
+
+export interface RenditionCandidate {
+  download: VimeoDownload;
+  reason: string;
+}
+
+export const DEFAULT_RENDITION_POLICY: RenditionPolicy = {
+  mode: 'largest',
+  maxHeight: 1080,
+  maxSizeMB: 2048,
+  preferredType: 'video/mp4',
+};
+
+const isSource = (d: VimeoDownload) =>
+  d.public_name === 'source' || d.rendition === 'source';
+
+const bySizeDesc = (a: VimeoDownload, b: VimeoDownload) => b.size - a.size;
+
+const withReason = (downloads: VimeoDownload[], reason: string) =>
+  downloads.map((download) => ({ download, reason }));
+
+// Short description of a rendition for status and info lines
+export const describeRendition = (d: VimeoDownload): string =>
+  `${d.public_name || d.rendition} · ${d.width}x${d.height} · ${d.type}`;
+
+// Order the available downloads by the given policy. The first entry is the
+// preferred rendition; the rest are fallbacks in the order they should be
+// tried if downloading the preferred one fails. The height and size caps
+// are hard limits: renditions above them are never returned.
+export const rankRenditions = (
+  downloads: VimeoDownload[],
+  policy: RenditionPolicy = DEFAULT_RENDITION_POLICY
+): RenditionCandidate[] => {
+  const sources = downloads.filter(isSource);
+  const renditions = downloads.filter((d) => !isSource(d));
+
+  switch (policy.mode) {
+    case 'source':
+      return [
+        ...withReason(sources, 'Source/original file'),
+        ...withReason(
+          [...renditions].sort(bySizeDesc),
+          'No source file, largest rendition'
+        ),
+      ];
+
+    case 'max_height': {
+      const fits = renditions
+        .filter((d) => d.height <= policy.maxHeight)
+        .sort((a, b) => b.height - a.height || b.size - a.size);
+      return withReason(fits, `Highest rendition up to ${policy.maxHeight}p`);
+    }
+
+    case 'max_size': {
+      const maxBytes = policy.maxSizeMB * 1024 * 1024;
+      const fits = renditions.filter((d) => d.size <= maxBytes);
+      return withReason(
+        fits.sort(bySizeDesc),
+        `Largest rendition up to ${policy.maxSizeMB} MB`
+      );
+    }
+
+    case 'type': {
+      const matching = renditions.filter(
+        (d) => d.type === policy.preferredType
+      );
+      const others = renditions.filter((d) => d.type !== policy.preferredType);
+      return [
+        ...withReason(
+          matching.sort(bySizeDesc),
+          `Largest ${policy.preferredType} rendition`
+        ),
+        ...withReason(
+          others.sort(bySizeDesc),
+          `No ${policy.preferredType} rendition, largest other type`
+        ),
+      ];
+    }
+
+    case 'largest':
+    default:
+      return withReason(
+        [...renditions].sort(bySizeDesc),
+        'Largest non-source rendition'
+      );
+  }
+};
+
+// Error message for a video where rankRenditions found nothing
+export const noRenditionMessage = (
+  downloads: VimeoDownload[],
+  policy: RenditionPolicy
+): string => {
+  const renditions = downloads.filter((d) => !isSource(d));
+  if (renditions.length > 0 && policy.mode === 'max_height') {
+    const lowest = Math.min(...renditions.map((d) => d.height));
+    return `No rendition up to ${policy.maxHeight}p (the lowest is ${lowest}p). Raise the height cap or choose another rendition policy.`;
+  }
+  if (renditions.length > 0 && policy.mode === 'max_size') {
+    const smallest = Math.min(...renditions.map((d) => d.size));
+    return `No rendition up to ${
+      policy.maxSizeMB
+    } MB (the smallest is ${Math.ceil(
+      smallest / (1024 * 1024)
+    )} MB). Raise the size cap or choose another rendition policy.`;
+  }
+  return 'No suitable download rendition found.';
+};
@@ -0,0 +1,102 @@
+import { IgniteVideoDoc } from './igniteApi';
+import { ResyncTarget, buildResyncPatch, diffIgniteVideo } from './resync';
+
+const target: ResyncTarget = {
+  title: 'Launch event',
+  description: 'Recorded live',
+  tags: ['Events', 'Launch'],
+  thumbnailUrl: 'https://i.vimeocdn.com/video/1_1920x1080',
+};
+
+const doc = (changes: Partial<IgniteVideoDoc> = {}): IgniteVideoDoc => ({
+  id: 'ignite-1',
+  title: 'Launch event',
+  description: 'Recorded live',
+  tags: ['Events', 'Launch'],
+  customThumbnailUrl: 'https://cdn.ignite/thumb.jpg',
+  ...changes,
+});
+
+const fields = (current: IgniteVideoDoc, resyncTarget = target) =>
+  diffIgniteVideo(current, resyncTarget).map((change) => change.field);
+
+describe('diffIgniteVideo', () => {
+  it('lists only the thumbnail when the text fields match', () => {
+    expect(fields(doc())).toEqual(['thumbnail']);
+    expect(fields(doc(), { ...target, thumbnailUrl: null })).toEqual([]);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(
+      fields(doc({ title: ' Launch event ', description: 'Recorded live\n' }), {
+        ...target,
+        thumbnailUrl: null,
+      })
+    ).toEqual([]);
+  });
+
+  it('compares tags regardless of order, case and tag objects', () => {
+    const tags = [{ title: 'launch' }, { name: 'EVENTS' }];
+    expect(fields(doc({ tags }), { ...target, thumbnailUrl: null })).toEqual(
+      []
+    );
+    expect(diffIgniteVideo(doc({ tags: ['Events'] }), target)[0]).toEqual({
+      field: 'tags',
+      current: 'Events',
+      proposed: 'Events, Launch',
+      selected: true,
+    });
+  });
+
+  it('proposes changed text fields, preselected', () => {
+    expect(
+      diffIgniteVideo(doc({ title: 'Old', description: null }), target)
+    ).toEqual([
+      {
+        field: 'title',
+        current: 'Old',
+        proposed: 'Launch event',
+        selected: true,
+      },
+      {
+        field: 'description',
+        current: '',
+        proposed: 'Recorded live',
+        selected: true,
+      },
+      {
+        field: 'thumbnail',
+        current: 'https://cdn.ignite/thumb.jpg',
+        proposed: target.thumbnailUrl,
+        selected: false,
+      },
+    ]);
+  });
+
+  it('preselects the thumbnail only when Ignite has none', () => {
+    const [thumbnail] = diffIgniteVideo(
+      doc({ customThumbnailUrl: null }),
+      target
+    );
+    expect(thumbnail).toEqual({
+      field: 'thumbnail',
+      current: '',
+      proposed: target.thumbnailUrl,
+      selected: true,
+    });
+  });
+});
+
+describe('buildResyncPatch', () => {
+  it('patches only the selected text fields', () => {
+    const changes = diffIgniteVideo(
+      doc({ title: 'Old', tags: [], customThumbnailUrl: null }),
+      { ...target, title: ' Launch event ' }
+    ).map((change) =>
+      change.field === 'tags' ? { ...change, selected: false } : change
+    );
+    expect(
+      buildResyncPatch(changes, { ...target, title: ' Launch event ' })
+    ).toEqual({ title: 'Launch event' });
+  });
+});
@@ -0,0 +1,112 @@
+import { IgniteVideoDoc, IgniteVideoPatch } from './igniteApi';
+
+// Metadata re-sync for videos that were already imported: compare the Ignite
+// video with what a fresh import would send and patch only selected fields
+
+export type ResyncField = 'title' | 'description' | 'tags' | 'thumbnail';
+
+export interface MetadataChange {
+  field: ResyncField;
+  current: string;
+  proposed: string;
+  selected: boolean;
+}
+
+// Values a fresh import of the Vimeo video would set
+export interface ResyncTarget {
+  title: string;
+  description: string;
+  tags: string[];
+  thumbnailUrl: string | null; // Largest active Vimeo picture
+}
+
+export const RESYNC_FIELD_LABELS: Record<ResyncField, string> = {
+  title: 'Title',
+  description: 'Description',
+  tags: 'Tags',
+  thumbnail: 'Thumbnail',
+};
+
+// Ignite may return tags as plain strings or as tag objects
+const tagNames = (tags: IgniteVideoDoc['tags']): string[] =>
+  (tags || [])
+    .map((tag) => (typeof tag === 'string' ? tag : tag.title || tag.name || ''))
+    .filter((tag) => tag.length > 0);
+
+const sameTags = (a: string[], b: string[]): boolean => {
+  const normalize = (tags: string[]) =>
+    tags
+      .map((t) => t.toLowerCase())
+      .sort()
+      .join('\n');
+  return normalize(a) === normalize(b);
+};
+
+// List the fields where the Ignite video differs from the Vimeo data.
+// Thumbnails can't be compared, so the Vimeo one is always offered to push
+// a corrected picture, but only preselected if the Ignite video has none.
+export const diffIgniteVideo = (
+  doc: IgniteVideoDoc,
+  target: ResyncTarget
+): MetadataChange[] => {
+  const changes: MetadataChange[] = [];
+
+  const currentTitle = (doc.title || '').trim();
+  if (currentTitle !== target.title.trim()) {
+    changes.push({
+      field: 'title',
+      current: currentTitle,
+      proposed: target.title.trim(),
+      selected: true,
+    });
+  }
+
+  const currentDescription = (doc.description || '').trim();
+  if (currentDescription !== target.description.trim()) {
+    changes.push({
+      field: 'description',
+      current: currentDescription,
+      proposed: target.description.trim(),
+      selected: true,
+    });
+  }
+
+  const currentTags = tagNames(doc.tags);
+  if (!sameTags(currentTags, target.tags)) {
+    changes.push({
+      field: 'tags',
+      current: currentTags.join(', '),
+      proposed: target.tags.join(', '),
+      selected: true,
+    });
+  }
+
+  if (target.thumbnailUrl) {
+    changes.push({
+      field: 'thumbnail',
+      current: doc.customThumbnailUrl || '',
+      proposed: target.thumbnailUrl,
+      selected: !doc.customThumbnailUrl,
+    });
+  }
+
+  return changes;
+};
+
+// PATCH body for the selected text fields (the thumbnail is uploaded apart)
+export const buildResyncPatch = (
+  changes: MetadataChange[],
+  target: ResyncTarget
+): IgniteVideoPatch => {
+  const patch: IgniteVideoPatch = {};
+  changes
+    .filter((change) => change.selected)
+    .forEach((change) => {
+      if (change.field === 'title') patch.title = target.title.trim();
+      if (change.field === 'description') {
+        patch.description = target.description.trim();
+      }
+      if (change.field === 'tags') patch.tags = target.tags;
+    });
+  return patch;
+};
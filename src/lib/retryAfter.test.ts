@@ -0,0 +1,22 @@
+import { parseRetryAfter } from './retryAfter';
+
+describe('parseRetryAfter', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT')).toBe(30000);
+    // A date in the past means no wait
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT')).toBe(0);
+  });
+
+  it.each([undefined, '', '  ', 'soon', 42])('returns null for %j', (value) => {
+    expect(parseRetryAfter(value)).toBeNull();
+  });
+});
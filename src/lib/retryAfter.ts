@@ -0,0 +1,10 @@
+// Retry-After is either a number of seconds or an HTTP date. Returns the
+// wait in milliseconds, or null if it is missing or unreadable, so the
+// caller's default backoff is used.
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { CategoryMapping, VimeoFolderInfo } from './folders';
+import { ImportItem } from './importEngine';
+
+// Imports run by the local server (src/server). The browser starts a job
+// and polls it; the file goes from Vimeo to Ignite without passing through
+// the browser.
+
+export const SERVER_IMPORTS_PATH = '/imports';
+
+// Body of POST /imports
+export interface ServerImportRequest {
+  vimeoToken: string;
+  igniteToken: string;
+  apiBase: string;
+  vimeoId: string;
+  options: ImportItem['options'];
+  folder: VimeoFolderInfo | null;
+  categoryMappings: CategoryMapping[];
+  // Set when retrying an attempt that already created the Ignite video
+  igniteVideoId: string | null;
+  importedTextTracks: string[];
+}
+
+// A job is the server's copy of the queue item, stages included
+export type ServerImportJob = ImportItem;
+
+const importsUrl = (serverUrl: string) =>
+  `${serverUrl.replace(/\/$/, '')}${SERVER_IMPORTS_PATH}`;
+
+// Start an import on the server, returns the job ID
+export const startServerImport = async (
+  serverUrl: string,
+  request: ServerImportRequest
+): Promise<string> => {
+  const response = await axios.post<{ jobId: string }>(
+    importsUrl(serverUrl),
+    request
+  );
+  return response.data.jobId;
+};
+
+// Current state of a job, or null if the server does not know it (for
+// example after a restart)
+export const fetchServerImport = async (
+  serverUrl: string,
+  jobId: string
+): Promise<ServerImportJob | null> => {
+  try {
+    const response = await axios.get<ServerImportJob>(
+      `${importsUrl(serverUrl)}/${encodeURIComponent(jobId)}`
+    );
+    return response.data;
+  } catch (error: any) {
+    if (error.response?.status === 404) return null;
+    throw error;
+  }
+};
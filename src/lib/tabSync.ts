@@ -0,0 +1,185 @@
+import { ImportItem } from './importEngine';
+
+// Coordination between browser tabs of the importer. One tab, the leader,
+// holds a Web Lock, runs transfers and polling and owns the saved queue.
+// It sends its queue over a BroadcastChannel; the other tabs show it as a
+// read-only mirror and take over when the leader closes.
+
+const LOCK_NAME = 'vimeo_importer_leader';
+const CHANNEL_NAME = 'vimeo_importer_queue';
+// Queue changes are sent at most this often
+const SYNC_INTERVAL_MS = 500;
+
+export type TabRole = 'pending' | 'leader' | 'follower';
+export type QueueState = 'idle' | 'running' | 'paused';
+
+type QueueSyncMessage =
+  | { type: 'hello' } // A follower asks for the whole queue
+  | {
+      type: 'sync';
+      items: ImportItem[]; // Added or changed items
+      // Every item ID in queue order, sent when items were added or removed
+      order: string[] | null;
+      queueState: QueueState;
+    };
+
+// Request the leader lock. `onRoleChange` is called with 'follower' if
+// another tab holds it, and with 'leader' once this tab gets it. Returns a
+// function that releases the lock (or stops waiting for it).
+export const claimLeadership = (
+  onRoleChange: (role: TabRole) => void
+): (() => void) => {
+  // No Web Locks (old browser): every tab works on its own
+  if (!navigator.locks) {
+    onRoleChange('leader');
+    return () => undefined;
+  }
+
+  let active = true;
+  let release = () => {};
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const controller = new AbortController();
+  const lead = () => {
+    if (active) onRoleChange('leader');
+    return held;
+  };
+
+  navigator.locks
+    .request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+      if (lock) return lead();
+      if (active) onRoleChange('follower');
+      // Wait until the current leader goes away
+      navigator.locks
+        .request(LOCK_NAME, { signal: controller.signal }, lead)
+        .catch(() => undefined);
+      return undefined;
+    })
+    .catch(() => undefined);
+
+  return () => {
+    active = false;
+    controller.abort();
+    release();
+  };
+};
+
+// Apply a sync message to the mirrored queue
+const applySync = (
+  prev: ImportItem[],
+  items: ImportItem[],
+  order: string[] | null
+): ImportItem[] => {
+  const byId = new Map(prev.map((item) => [item.id, item]));
+  items.forEach((item) => byId.set(item.id, item));
+  if (!order) return prev.map((item) => byId.get(item.id) || item);
+  return order
+    .map((id) => byId.get(id))
+    .filter((item): item is ImportItem => !!item);
+};
+
+export interface QueueChannelHandlers {
+  // Leader: a follower wants the whole queue
+  onHello: () => void;
+  // Follower: the leader's queue changed
+  onSync: (
+    update: (prev: ImportItem[]) => ImportItem[],
+    queueState: QueueState
+  ) => void;
+}
+
+// Channel between the tabs. The leader calls `sync` on every queue change;
+// only what changed since the last message is sent.
+export const createQueueChannel = ({
+  onHello,
+  onSync,
+}: QueueChannelHandlers) => {
+  const channel =
+    typeof BroadcastChannel === 'undefined'
+      ? null
+      : new BroadcastChannel(CHANNEL_NAME);
+
+  // What the followers have, compared by identity
+  let sent = new Map<string, ImportItem>();
+  let latest: { items: ImportItem[]; queueState: QueueState } | null = null;
+  let sentQueueState: QueueState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = (full: boolean) => {
+    timer = null;
+    if (!channel || !latest) return;
+    const { items, queueState } = latest;
+
+    const current = new Map<string, ImportItem>();
+    const changed: ImportItem[] = [];
+    let added = false;
+    items.forEach((item) => {
+      current.set(item.id, item);
+      const previous = sent.get(item.id);
+      if (!previous) added = true;
+      if (full || previous !== item) changed.push(item);
+    });
+    const removed = Array.from(sent.keys()).filter((id) => !current.has(id));
+    sent = current;
+
+    if (
+      !full &&
+      changed.length === 0 &&
+      removed.length === 0 &&
+      queueState === sentQueueState
+    ) {
+      return;
+    }
+    sentQueueState = queueState;
+    const message: QueueSyncMessage = {
+      type: 'sync',
+      items: changed,
+      order:
+        full || added || removed.length > 0
+          ? items.map((item) => item.id)
+          : null,
+      queueState,
+    };
+    channel.postMessage(message);
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<QueueSyncMessage>) => {
+      const message = event.data;
+      if (message.type === 'hello') {
+        onHello();
+      } else if (message.type === 'sync') {
+        onSync(
+          (prev) => applySync(prev, message.items, message.order),
+          message.queueState
+        );
+      }
+    };
+  }
+
+  return {
+    // Follower: ask the leader for the whole queue
+    hello: () => {
+      const message: QueueSyncMessage = { type: 'hello' };
+      channel?.postMessage(message);
+    },
+    // Leader: send changes, throttled
+    sync: (items: ImportItem[], queueState: QueueState) => {
+      latest = { items, queueState };
+      if (!timer) timer = setTimeout(() => flush(false), SYNC_INTERVAL_MS);
+    },
+    // Leader: send the whole queue now
+    syncFull: (items: ImportItem[], queueState: QueueState) => {
+      if (timer) clearTimeout(timer);
+      latest = { items, queueState };
+      flush(true);
+    },
+    close: () => {
+      if (timer) clearTimeout(timer);
+      channel?.close();
+    },
+  };
+};
+
+export type QueueChannel = ReturnType<typeof createQueueChannel>;
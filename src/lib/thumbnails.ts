@@ -0,0 +1,19 @@
+// Vimeo pictures object (video thumbnail)
+export interface VimeoPictures {
+  active: boolean;
+  type: string; // "custom" when uploaded by the owner, otherwise generated
+  base_link: string;
+  sizes: Array<{ width: number; height: number; link: string }>;
+}
+
+// Link of the largest picture size, if the picture is active
+export const largestPictureUrl = (
+  pictures: VimeoPictures | undefined
+): string | null => {
+  if (!pictures?.active || !pictures.sizes || pictures.sizes.length === 0) {
+    return null;
+  }
+  return pictures.sizes.reduce((largest, current) =>
+    current.width > largest.width ? current : largest
+  ).link;
+};
@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { TransferIntegrityError } from './integrity';
+import { ChunkedDownloadOptions, downloadInChunks } from './transfer';
+
+jest.mock('axios', () => ({ __esModule: true, default: { get: jest.fn() } }));
+
+const mockGet = axios.get as jest.Mock;
+
+const FILE = 'abcdefghij'; // 10 bytes
+
+interface ServerOptions {
+  contentRange?: boolean; // Send Content-Range headers
+  ignoreRange?: boolean; // Answer with the whole file (200)
+  size?: number; // Size the server reports in Content-Range
+}
+
+// Serve FILE for Range requests and record the requested ranges
+const serve = ({
+  contentRange = true,
+  ignoreRange = false,
+  size = FILE.length,
+}: ServerOptions = {}) => {
+  const ranges: string[] = [];
+  mockGet.mockImplementation(async (_url, config) => {
+    const range: string = config.headers.Range;
+    ranges.push(range);
+    if (ignoreRange) {
+      return { status: 200, headers: {}, data: new Blob([FILE]) };
+    }
+    const [start, end] = range
+      .replace('bytes=', '')
+      .split('-')
+      .map((n) => parseInt(n, 10));
+    if (start >= FILE.length) {
+      throw Object.assign(new Error('Range Not Satisfiable'), {
+        response: { status: 416, headers: {} },
+      });
+    }
+    const last = Math.min(end, FILE.length - 1);
+    return {
+      status: 206,
+      headers: contentRange
+        ? { 'content-range': `bytes ${start}-${last}/${size}` }
+        : {},
+      data: new Blob([FILE.substring(start, last + 1)]),
+    };
+  });
+  return ranges;
+};
+
+const download = (expectedSize: number, options: ChunkedDownloadOptions) =>
+  downloadInChunks(
+    'https://vimeo.test/file.mp4',
+    expectedSize,
+    'video/mp4',
+    () => undefined,
+    options
+  );
+
+describe('downloadInChunks', () => {
+  afterEach(() => mockGet.mockReset());
+
+  it('downloads a file of known size in ranges', async () => {
+    const ranges = serve();
+    const offsets: number[] = [];
+    const blob = await download(10, {
+      chunkSize: 4,
+      onChunk: async (offset) => void offsets.push(offset),
+    });
+    expect(ranges).toEqual(['bytes=0-3', 'bytes=4-7', 'bytes=8-9']);
+    expect(offsets).toEqual([0, 4, 8]);
+    expect(blob.size).toBe(10);
+    expect(blob.type).toBe('video/mp4');
+  });
+
+  it('takes an unknown size from Content-Range', async () => {
+    const ranges = serve();
+    expect((await download(0, { chunkSize: 4 })).size).toBe(10);
+    expect(ranges).toEqual(['bytes=0-3', 'bytes=4-7', 'bytes=8-9']);
+  });
+
+  it('stops at a short chunk without size or Content-Range', async () => {
+    const ranges = serve({ contentRange: false });
+    expect((await download(0, { chunkSize: 4 })).size).toBe(10);
+    expect(ranges).toEqual(['bytes=0-3', 'bytes=4-7', 'bytes=8-11']);
+  });
+
+  it('stops at a 416 when the last chunk was full', async () => {
+    const ranges = serve({ contentRange: false });
+    expect((await download(0, { chunkSize: 5 })).size).toBe(10);
+    expect(ranges).toEqual(['bytes=0-4', 'bytes=5-9', 'bytes=10-14']);
+  });
+
+  it('resumes after the saved parts', async () => {
+    const ranges = serve();
+    const blob = await download(10, {
+      chunkSize: 4,
+      resumeParts: [new Blob(['abcdef'])],
+    });
+    expect(ranges).toEqual(['bytes=6-9']);
+    expect(blob.size).toBe(10);
+  });
+
+  it('accepts a server that ignores the Range header', async () => {
+    serve({ ignoreRange: true });
+    expect((await download(10, { chunkSize: 4 })).size).toBe(10);
+  });
+
+  it('fails at the first chunk when the file size differs', async () => {
+    const ranges = serve({ size: 12 });
+    await expect(download(10, { chunkSize: 4 })).rejects.toThrow(
+      TransferIntegrityError
+    );
+    expect(ranges).toEqual(['bytes=0-3']);
+  });
+});
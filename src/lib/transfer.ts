@@ -0,0 +1,137 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { ContentHasher, TransferIntegrityError, hashBlob } from './integrity';
+
+// Size of each Range request. Only one chunk is held by the download loop at
+// a time; finished chunks are kept as Blob parts, which the browser is free
+// to page out to disk, so memory stays bounded regardless of file size.
+export const DOWNLOAD_CHUNK_SIZE = 32 * 1024 * 1024;
+
+// Retries per chunk before the whole download is given up
+const CHUNK_MAX_RETRIES = 3;
+const CHUNK_RETRY_DELAY_MS = 2000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Parse the total size from a Content-Range header ("bytes 0-99/1234")
+const parseContentRangeTotal = (header: unknown): number | null => {
+  if (typeof header !== 'string') return null;
+  const match = header.match(/\/(\d+)\s*$/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// A range that starts past the end of the file
+const isRangeNotSatisfiable = (error: unknown) =>
+  (error as AxiosError).response?.status === 416;
+
+// Fetch a single byte range, retrying transient network failures. A 416 is
+// not retried, the range will not become satisfiable.
+const fetchChunk = async (
+  url: string,
+  start: number,
+  end: number,
+  onProgress: (loaded: number) => void
+): Promise<AxiosResponse<Blob>> => {
+  let retries = 0;
+
+  while (true) {
+    try {
+      return await axios.get<Blob>(url, {
+        responseType: 'blob',
+        headers: { Range: `bytes=${start}-${end}` },
+        onDownloadProgress: (evt: { loaded: number }) => onProgress(evt.loaded),
+      });
+    } catch (error) {
+      retries++;
+      if (retries > CHUNK_MAX_RETRIES || isRangeNotSatisfiable(error)) {
+        throw error;
+      }
+      onProgress(0);
+      await delay(CHUNK_RETRY_DELAY_MS * retries);
+    }
+  }
+};
+
+export interface ChunkedDownloadOptions {
+  // Chunks already downloaded by an earlier, interrupted attempt
+  resumeParts?: Blob[];
+  // Called after every chunk, before the download moves on to the next one
+  onChunk?: (offset: number, chunk: Blob) => Promise<void>;
+  chunkSize?: number;
+  // Fed with the file's bytes in order, resumed parts first
+  hasher?: ContentHasher;
+}
+
+// Download a file with sequential Range requests and assemble the chunks into
+// a single Blob. `expectedSize` is the size reported by Vimeo; a
+// Content-Range total that disagrees with it fails the download right away
+// instead of after the whole file. An `expectedSize` of 0 (unknown) takes
+// the total from the first Content-Range header; without one, the download
+// ends at the first chunk shorter than requested, or at a 416 for the range
+// after the last byte.
+export const downloadInChunks = async (
+  url: string,
+  expectedSize: number,
+  contentType: string,
+  onProgress: (loaded: number, total: number) => void,
+  options: ChunkedDownloadOptions = {}
+): Promise<Blob> => {
+  const { onChunk, chunkSize = DOWNLOAD_CHUNK_SIZE, hasher } = options;
+  const parts: Blob[] = [...(options.resumeParts || [])];
+  let total = expectedSize;
+  let offset = parts.reduce((sum, part) => sum + part.size, 0);
+  if (hasher) {
+    for (const part of parts) await hashBlob(hasher, part);
+  }
+
+  while (total === 0 || offset < total) {
+    const end = Math.min(offset + chunkSize, total || offset + chunkSize) - 1;
+    const chunkOffset = offset;
+    const knownTotal = total;
+    let response: AxiosResponse<Blob>;
+    try {
+      response = await fetchChunk(url, offset, end, (loaded) =>
+        onProgress(chunkOffset + loaded, knownTotal)
+      );
+    } catch (error) {
+      // The previous chunk ended exactly at the end of a file of unknown size
+      if (total === 0 && offset > 0 && isRangeNotSatisfiable(error)) break;
+      throw error;
+    }
+
+    // Server ignored the Range header and sent the whole file
+    if (response.status === 200) {
+      if (offset !== 0) {
+        throw new Error('Server does not support resuming range requests.');
+      }
+      if (hasher) await hashBlob(hasher, response.data);
+      onProgress(response.data.size, response.data.size);
+      return response.data;
+    }
+
+    const rangeTotal = parseContentRangeTotal(
+      response.headers['content-range']
+    );
+    if (rangeTotal !== null) {
+      if (expectedSize > 0 && rangeTotal !== expectedSize) {
+        throw new TransferIntegrityError(
+          `Download size mismatch: file has ${rangeTotal} bytes, expected ${expectedSize}`
+        );
+      }
+      total = rangeTotal;
+    }
+
+    if (hasher) await hashBlob(hasher, response.data);
+    if (onChunk) await onChunk(offset, response.data);
+    parts.push(response.data);
+    offset += response.data.size;
+    onProgress(offset, total);
+
+    // An empty chunk, or without a known total a short one, is the end of
+    // the file
+    const requested = end - chunkOffset + 1;
+    if (response.data.size === 0) break;
+    if (total === 0 && response.data.size < requested) break;
+  }
+
+  return new Blob(parts, { type: contentType });
+};
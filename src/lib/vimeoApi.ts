@@ -0,0 +1,269 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { VimeoParentFolder } from './folders';
+import { VimeoDownload } from './renditions';
+import { parseRetryAfter } from './retryAfter';
+import { VimeoPictures } from './thumbnails';
+
+// Vimeo API client shared by the import engine, the Video Browser and the
+// thumbnail backfill. Every request goes through one scheduler, so a
+// library scan and running imports share the rate-limit budget instead of
+// both running into 429s.
+
+const VIMEO_API_BASE = 'https://api.vimeo.com';
+const PAGE_SIZE = 100;
+
+// Rate limiting configuration
+const REQUEST_DELAY_MS = 500; // Minimum gap between two requests
+const MAX_RETRIES = 5;
+const INITIAL_RETRY_DELAY_MS = 2000;
+// Requests kept back from the budget, so calls that are already on their
+// way do not run into the limit
+const RESERVED_REQUESTS = 5;
+
+// Types
+export interface VimeoVideoData {
+  name: string;
+  description: string;
+  duration: number;
+  width: number;
+  height: number;
+  link?: string;
+  created_time?: string;
+  tags?: Array<{ name: string; tag: string }>;
+  privacy?: {
+    view: string;
+  };
+  download?: VimeoDownload[];
+  parent_folder?: VimeoParentFolder | null;
+  pictures?: VimeoPictures;
+}
+
+export interface VimeoTextTrack {
+  uri: string;
+  active: boolean;
+  type: string; // "captions" or "subtitles"
+  language: string;
+  link: string;
+  name: string | null;
+}
+
+// One page of a Vimeo list endpoint
+export interface VimeoPage<T> {
+  total: number;
+  page: number;
+  per_page: number;
+  data: T[];
+  paging?: {
+    next: string | null;
+    previous: string | null;
+    last: string | null;
+  };
+}
+
+export interface VimeoRateLimitStatus {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null; // Epoch ms
+  // Set while requests are held back (budget used up or rate limited)
+  waitingUntil: number | null;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Scheduler state, shared by every client in this page or process
+const rateLimit: VimeoRateLimitStatus = {
+  limit: null,
+  remaining: null,
+  resetAt: null,
+  waitingUntil: null,
+};
+let nextSlotAt = 0;
+let pausedUntil = 0; // Set by a 429
+const listeners = new Set<(status: VimeoRateLimitStatus) => void>();
+
+const notify = () => {
+  const status = { ...rateLimit };
+  listeners.forEach((listener) => listener(status));
+};
+
+// Follow the rate-limit budget, e.g. to show it in the UI. Returns the
+// unsubscribe function.
+export const subscribeVimeoRateLimit = (
+  listener: (status: VimeoRateLimitStatus) => void
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// x-ratelimit-reset is a date; plain numbers are read as epoch seconds or,
+// if small, as seconds from now
+const parseReset = (value: string): number | null => {
+  const date = Date.parse(value);
+  if (!isNaN(date)) return date;
+  const seconds = parseFloat(value);
+  if (isNaN(seconds)) return null;
+  return seconds > 1e9 ? seconds * 1000 : Date.now() + seconds * 1000;
+};
+
+const readRateLimitHeaders = (headers: AxiosResponse['headers']) => {
+  const limit = parseInt(headers['x-ratelimit-limit'], 10);
+  const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+  const reset = headers['x-ratelimit-reset'];
+  if (isNaN(remaining)) return;
+
+  rateLimit.limit = isNaN(limit) ? rateLimit.limit : limit;
+  rateLimit.remaining = remaining;
+  rateLimit.resetAt = reset ? parseReset(String(reset)) : rateLimit.resetAt;
+  notify();
+};
+
+// Reserve the start time of the next request. Requests are spaced by at
+// least REQUEST_DELAY_MS; with a known budget the remaining requests are
+// spread until the reset, and none start while it is used up.
+const reserveSlot = (): number => {
+  const now = Date.now();
+  let start = Math.max(now, nextSlotAt, pausedUntil);
+  let spacing = REQUEST_DELAY_MS;
+
+  const { remaining, resetAt } = rateLimit;
+  if (remaining !== null && resetAt !== null && resetAt > start) {
+    if (remaining <= RESERVED_REQUESTS) {
+      start = resetAt;
+    } else {
+      spacing = Math.max(
+        spacing,
+        (resetAt - start) / (remaining - RESERVED_REQUESTS)
+      );
+    }
+  }
+  if (remaining !== null) rateLimit.remaining = remaining - 1;
+
+  nextSlotAt = start + spacing;
+  return start;
+};
+
+const waitForSlot = async () => {
+  const start = reserveSlot();
+  const wait = start - Date.now();
+  if (wait <= 0) return;
+
+  // Only report waits that are longer than the normal spacing
+  if (wait > REQUEST_DELAY_MS * 2) {
+    rateLimit.waitingUntil = start;
+    notify();
+  }
+  await delay(wait);
+  if (rateLimit.waitingUntil !== null && rateLimit.waitingUntil <= start) {
+    rateLimit.waitingUntil = null;
+    notify();
+  }
+};
+
+// GET through the scheduler, retrying 429s. A 429 pauses every request,
+// not only the one that got it.
+const scheduledGet = async <T>(token: string, url: string): Promise<T> => {
+  let retries = 0;
+  let retryDelay = INITIAL_RETRY_DELAY_MS;
+
+  while (true) {
+    await waitForSlot();
+    try {
+      const response: AxiosResponse<T> = await axios.get(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      readRateLimitHeaders(response.headers);
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      if (axiosError.response?.status !== 429) throw error;
+
+      retries++;
+      if (retries > MAX_RETRIES) {
+        throw new Error(
+          'Vimeo API rate limit exceeded. Please wait a few minutes and try again.'
+        );
+      }
+
+      // Get retry delay from header or use exponential backoff
+      const waitTime =
+        parseRetryAfter(axiosError.response.headers['retry-after']) ??
+        retryDelay;
+      retryDelay *= 2;
+
+      console.warn(
+        `Vimeo rate limited. Waiting ${Math.ceil(
+          waitTime / 1000
+        )}s before retry ${retries}/${MAX_RETRIES}...`
+      );
+      pausedUntil = Math.max(pausedUntil, Date.now() + waitTime);
+      rateLimit.remaining = 0;
+      rateLimit.resetAt = pausedUntil;
+    }
+  }
+};
+
+// Typed Vimeo endpoints for one access token
+export const createVimeoClient = (token: string) => {
+  // Path below the API root or a full API URL
+  const get = <T>(pathOrUrl: string): Promise<T> =>
+    scheduledGet<T>(
+      token,
+      pathOrUrl.startsWith('http') ? pathOrUrl : `${VIMEO_API_BASE}${pathOrUrl}`
+    );
+
+  // Fetch every page of a list endpoint, following paging.next
+  const forEachPage = async <T>(
+    path: string,
+    onPage: (page: VimeoPage<T>, pageNumber: number) => void
+  ): Promise<void> => {
+    let nextPath: string | null = path;
+    for (let pageNumber = 1; nextPath; pageNumber++) {
+      const page: VimeoPage<T> = await get<VimeoPage<T>>(nextPath);
+      onPage(page, pageNumber);
+      nextPath = page.paging?.next || null;
+    }
+  };
+
+  const getVideo = (videoId: string): Promise<VimeoVideoData> =>
+    get<VimeoVideoData>(`/videos/${videoId}`);
+
+  const getVideoPictures = async (
+    videoId: string
+  ): Promise<VimeoPictures | undefined> =>
+    (
+      await get<{ pictures?: VimeoPictures }>(
+        `/videos/${videoId}?fields=pictures`
+      )
+    ).pictures;
+
+  // Active text tracks (captions/subtitles) with a download link
+  const getTextTracks = async (videoId: string): Promise<VimeoTextTrack[]> => {
+    const response = await get<{ data?: VimeoTextTrack[] }>(
+      `/videos/${videoId}/texttracks`
+    );
+    return (response.data || []).filter((track) => track.active && track.link);
+  };
+
+  // Every video of the token owner, or of another user (e.g. a team owner)
+  const forEachVideoPage = <T>(
+    userId: string | null,
+    onPage: (page: VimeoPage<T>, pageNumber: number) => void
+  ): Promise<void> =>
+    forEachPage<T>(
+      `${userId ? `/users/${userId}` : '/me'}/videos?per_page=${PAGE_SIZE}`,
+      onPage
+    );
+
+  return {
+    get,
+    forEachPage,
+    getVideo,
+    getVideoPictures,
+    getTextTracks,
+    forEachVideoPage,
+  };
+};
+
+export type VimeoClient = ReturnType<typeof createVimeoClient>;
@@ -0,0 +1,9 @@
+// Extract a numeric Vimeo ID from a pasted ID or URL
+// e.g., "https://vimeo.com/123456789" -> "123456789"
+export const parseVimeoId = (value: string): string => {
+  const trimmed = value.trim();
+  const urlMatch = trimmed.match(/vimeo\.com\/(\d+)/);
+  if (urlMatch) return urlMatch[1];
+  // Remove any non-numeric characters (keep only digits)
+  return trimmed.replace(/\D/g, '');
+};
@@ -0,0 +1,21 @@
+import { ServerResponse } from 'http';
+
+// Small response helpers for the local server
+
+export const sendText = (
+  res: ServerResponse,
+  status: number,
+  message: string
+) => {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+};
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown
+) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
@@ -0,0 +1,348 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  DEFAULT_METADATA_FIELDS,
+  FINAL_STAGES,
+  ImportItemUpdater,
+  createImportEngine,
+  createImportItem,
+  delay,
+} from '../lib/importEngine';
+import { RENDITION_MODES } from '../lib/renditions';
+import {
+  SERVER_IMPORTS_PATH,
+  ServerImportJob,
+  ServerImportRequest,
+} from '../lib/serverImport';
+import { sendJson, sendText } from './http';
+import { streamToSignedUrl } from './upstream';
+
+// Server-side imports: POST /imports starts a job, GET /imports/{id} returns
+// its progress. The video is streamed from Vimeo to the Ignite upload URL,
+// so there is no file size limit and nothing is held in memory.
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const POLL_INTERVAL_MS = 10000;
+const ENCODING_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+// Finished jobs are forgotten after this long
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Hosts (and their subdomains) the Ignite API base may point to, comma
+// separated in IGNITE_API_HOSTS. The server sends the Ignite token there.
+const ALLOWED_API_HOSTS = (process.env.IGNITE_API_HOSTS || 'ignitevideo.cloud')
+  .split(',')
+  .map((apiHost) => apiHost.trim().toLowerCase())
+  .filter(Boolean);
+
+interface JobEntry {
+  job: ServerImportJob;
+  finishedAt: number | null;
+}
+
+const jobs = new Map<string, JobEntry>();
+
+const isFinished = (job: ServerImportJob) =>
+  FINAL_STAGES.includes(job.stage) || job.stage === 'reviewing';
+
+const pruneJobs = () => {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  jobs.forEach((entry, id) => {
+    if (entry.finishedAt && entry.finishedAt < cutoff) jobs.delete(id);
+  });
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = (value: unknown, allowed: readonly string[]) =>
+  typeof value === 'string' && allowed.includes(value);
+
+const isStringOrNull = (value: unknown) =>
+  value === null || typeof value === 'string';
+
+const isAllowedApiBase = (apiBase: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(apiBase);
+    return (
+      protocol === 'https:' &&
+      ALLOWED_API_HOSTS.some(
+        (apiHost) => hostname === apiHost || hostname.endsWith(`.${apiHost}`)
+      )
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Returns an error message for invalid import options
+const validateOptions = (options: unknown): string | null => {
+  if (!isObject(options)) return 'options is missing';
+
+  for (const field of [
+    'language',
+    'tags',
+    'categoryId',
+    'titleOverride',
+    'descriptionOverride',
+  ]) {
+    if (typeof options[field] !== 'string')
+      return `options.${field} is invalid`;
+  }
+  for (const field of [
+    'autoTranscribe',
+    'importTextTracks',
+    'useCategoryMapping',
+    'verifyContentHash',
+  ]) {
+    if (typeof options[field] !== 'boolean') {
+      return `options.${field} is invalid`;
+    }
+  }
+  if (!isOneOf(options.visibility, ['private', 'public', 'inherit'])) {
+    return 'options.visibility is invalid';
+  }
+  if (!isOneOf(options.existingMode, ['skip', 'update'])) {
+    return 'options.existingMode is invalid';
+  }
+
+  const { visibilityRules, renditionPolicy, metadataFields } = options;
+  if (
+    !isObject(visibilityRules) ||
+    !Object.values(visibilityRules).every((value) =>
+      isOneOf(value, ['private', 'public'])
+    )
+  ) {
+    return 'options.visibilityRules is invalid';
+  }
+  if (
+    !isObject(renditionPolicy) ||
+    !isOneOf(renditionPolicy.mode, RENDITION_MODES) ||
+    typeof renditionPolicy.maxHeight !== 'number' ||
+    typeof renditionPolicy.maxSizeMB !== 'number' ||
+    typeof renditionPolicy.preferredType !== 'string'
+  ) {
+    return 'options.renditionPolicy is invalid';
+  }
+  if (
+    !isObject(metadataFields) ||
+    !Object.keys(DEFAULT_METADATA_FIELDS).every(
+      (field) => typeof metadataFields[field] === 'boolean'
+    )
+  ) {
+    return 'options.metadataFields is invalid';
+  }
+  return null;
+};
+
+// Check an untrusted POST /imports body field by field. Returns the
+// request, or the reason it was rejected.
+const parseRequest = (body: unknown): ServerImportRequest | string => {
+  if (!isObject(body)) return 'Request body must be a JSON object';
+  for (const field of ['vimeoToken', 'igniteToken', 'apiBase', 'vimeoId']) {
+    const value = body[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      return `${field} is missing`;
+    }
+  }
+  const apiBase = body.apiBase as string;
+  if (!isAllowedApiBase(apiBase)) {
+    return `apiBase must be an https URL on ${ALLOWED_API_HOSTS.join(', ')}`;
+  }
+
+  const invalidOptions = validateOptions(body.options);
+  if (invalidOptions) return invalidOptions;
+
+  const { folder, categoryMappings, igniteVideoId, importedTextTracks } = body;
+  if (
+    folder != null &&
+    !(
+      isObject(folder) &&
+      isStringOrNull(folder.folderId) &&
+      isStringOrNull(folder.folderName) &&
+      isStringOrNull(folder.folderPath)
+    )
+  ) {
+    return 'folder is invalid';
+  }
+  if (
+    categoryMappings != null &&
+    !(
+      Array.isArray(categoryMappings) &&
+      categoryMappings.every(
+        (mapping) =>
+          isObject(mapping) &&
+          isStringOrNull(mapping.folderId) &&
+          typeof mapping.folderPath === 'string' &&
+          typeof mapping.categoryId === 'string' &&
+          typeof mapping.categoryTitle === 'string'
+      )
+    )
+  ) {
+    return 'categoryMappings is invalid';
+  }
+  if (igniteVideoId != null && typeof igniteVideoId !== 'string') {
+    return 'igniteVideoId is invalid';
+  }
+  if (
+    importedTextTracks != null &&
+    !(
+      Array.isArray(importedTextTracks) &&
+      importedTextTracks.every((track) => typeof track === 'string')
+    )
+  ) {
+    return 'importedTextTracks is invalid';
+  }
+
+  // Every field was checked above
+  return body as unknown as ServerImportRequest;
+};
+
+// Run the import and wait for encoding, the same steps as in the browser
+const runJob = async (jobId: string, request: ServerImportRequest) => {
+  const update: ImportItemUpdater = (updater) => {
+    const entry = jobs.get(jobId);
+    if (!entry) return;
+    entry.job = updater(entry.job);
+    if (isFinished(entry.job) && !entry.finishedAt) {
+      entry.finishedAt = Date.now();
+    }
+  };
+  const engine = createImportEngine({
+    vimeoToken: request.vimeoToken,
+    igniteToken: request.igniteToken,
+    apiBase: request.apiBase.replace(/\/$/, ''),
+  });
+
+  update((prev) => ({ ...prev, stage: 'checking', statusText: 'Starting...' }));
+  const pollVideoId = await engine.runImport(
+    jobs.get(jobId)?.job as ServerImportJob,
+    {
+      update,
+      categoryMappings: request.categoryMappings || [],
+      streamTransfer: streamToSignedUrl,
+    }
+  );
+  if (!pollVideoId) return;
+
+  const deadline = Date.now() + ENCODING_TIMEOUT_MS;
+  while (
+    !(await engine.checkEncoding(
+      pollVideoId,
+      () => jobs.get(jobId)?.job,
+      update
+    ))
+  ) {
+    if (Date.now() > deadline) {
+      update((prev) => ({
+        ...prev,
+        stage: 'error',
+        errorMessage: 'Timed out waiting for encoding',
+        failedStage: 'polling',
+      }));
+      return;
+    }
+    await delay(POLL_INTERVAL_MS);
+  }
+};
+
+const startJob = async (req: IncomingMessage, res: ServerResponse) => {
+  // A JSON content type makes browsers send a CORS preflight first
+  if (!(req.headers['content-type'] || '').startsWith('application/json')) {
+    sendJson(res, 415, { error: 'Content-Type must be application/json' });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendJson(res, 400, { error: (error as Error).message });
+    return;
+  }
+  const request = parseRequest(body);
+  if (typeof request === 'string') {
+    sendJson(res, 400, { error: request });
+    return;
+  }
+
+  const jobId = randomUUID();
+  pruneJobs();
+  jobs.set(jobId, {
+    job: {
+      ...createImportItem(
+        request.vimeoId.trim(),
+        0,
+        request.options,
+        request.folder || null
+      ),
+      id: jobId,
+      igniteVideoId: request.igniteVideoId || null,
+      importedTextTracks: request.importedTextTracks || [],
+    },
+    finishedAt: null,
+  });
+
+  runJob(jobId, request).catch((error) => {
+    console.error(`Import job ${jobId} crashed:`, error);
+    const entry = jobs.get(jobId);
+    if (entry) {
+      entry.job = {
+        ...entry.job,
+        stage: 'error',
+        errorMessage: (error as Error).message,
+        failedStage: entry.job.stage,
+      };
+      entry.finishedAt = Date.now();
+    }
+  });
+  sendJson(res, 202, { jobId });
+};
+
+// POST /imports, GET /imports/{jobId}
+export const handleImports = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestUrl: URL
+) => {
+  if (requestUrl.pathname === SERVER_IMPORTS_PATH) {
+    if (req.method !== 'POST') {
+      sendText(res, 405, 'Method not allowed');
+      return;
+    }
+    startJob(req, res);
+    return;
+  }
+
+  // Job IDs are UUIDs, so the raw path segment is looked up as is: decoding
+  // a malformed escape like "%" would throw inside the request listener
+  const jobId = requestUrl.pathname.slice(SERVER_IMPORTS_PATH.length + 1);
+  const entry = jobs.get(jobId);
+  if (req.method !== 'GET') {
+    sendText(res, 405, 'Method not allowed');
+  } else if (!entry) {
+    sendJson(res, 404, { error: 'Job not found' });
+  } else {
+    sendJson(res, 200, entry.job);
+  }
+};
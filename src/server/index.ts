@@ -0,0 +1,79 @@
+import axios from 'axios';
+import http from 'http';
+import { RELAY_PATH } from '../lib/relay';
+import { SERVER_IMPORTS_PATH } from '../lib/serverImport';
+import { sendText } from './http';
+import { handleImports } from './imports';
+import { handleRelay } from './relay';
+
+// Local helper server for the web app. Binds to localhost by default.
+//
+//   npm run build:cli
+//   npm run server
+//
+// Environment: PORT (default 8787), HOST (default 127.0.0.1),
+// ALLOWED_ORIGIN (comma separated; default the hosted app and the dev
+// server), the web app origins allowed to use the server, and
+// IGNITE_API_HOSTS (see imports.ts).
+
+const port = parseInt(process.env.PORT || '', 10) || 8787;
+const host = process.env.HOST || '127.0.0.1';
+const DEFAULT_ALLOWED_ORIGINS = [
+  'https://ignitevideo.github.io',
+  'http://localhost:3000',
+];
+const allowedOrigins = process.env.ALLOWED_ORIGIN
+  ? process.env.ALLOWED_ORIGIN.split(',').map((origin) => origin.trim())
+  : DEFAULT_ALLOWED_ORIGINS;
+
+// Browser-style Blob responses for the import engine (the Node http adapter
+// has no Blob support)
+axios.defaults.adapter = 'fetch';
+
+const server = http.createServer((req, res) => {
+  // Requests from other websites are refused outright, not only hidden by
+  // CORS: a page could still start imports with a simple POST. Requests
+  // without an Origin (curl, scripts) come from this machine.
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.includes(origin)) {
+    sendText(res, 403, `Origin ${origin} is not allowed`);
+    return;
+  }
+  if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Range, Content-Type');
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    'Content-Length, Content-Range, Accept-Ranges'
+  );
+
+  // CORS preflight (Range and JSON bodies are not simple requests)
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const requestUrl = new URL(req.url || '/', `http://${host}:${port}`);
+  if (requestUrl.pathname === RELAY_PATH) {
+    handleRelay(req, res, requestUrl);
+    return;
+  }
+  if (
+    requestUrl.pathname === SERVER_IMPORTS_PATH ||
+    requestUrl.pathname.startsWith(`${SERVER_IMPORTS_PATH}/`)
+  ) {
+    handleImports(req, res, requestUrl);
+    return;
+  }
+  sendText(res, 404, 'Not found');
+});
+
+server.listen(port, host, () => {
+  console.log(`Server listening on http://${host}:${port}`);
+  console.log(`Download relay: http://${host}:${port}${RELAY_PATH}?url=...`);
+  console.log(
+    `Server-side imports: http://${host}:${port}${SERVER_IMPORTS_PATH}`
+  );
+});
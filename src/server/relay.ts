@@ -0,0 +1,57 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { isAllowedRelayTarget } from '../lib/relay';
+import { sendText } from './http';
+import { UpstreamError, openUpstream } from './upstream';
+
+// Streams an allow-listed Vimeo download URL to the browser. Range requests
+// are passed through, so chunked and resumed downloads work the same as
+// without the relay; nothing is buffered.
+
+// Upstream response headers passed on to the browser
+const FORWARDED_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'etag',
+  'last-modified',
+];
+
+// GET/HEAD /relay?url=<download URL>
+export const handleRelay = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestUrl: URL
+) => {
+  const target = requestUrl.searchParams.get('url') || '';
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendText(res, 405, 'Method not allowed');
+    return;
+  }
+  if (!isAllowedRelayTarget(target)) {
+    sendText(res, 403, 'Only Vimeo download URLs can be relayed');
+    return;
+  }
+
+  try {
+    const upstream = await openUpstream(
+      target,
+      req.method,
+      req.headers.range,
+      isAllowedRelayTarget
+    );
+    const headers: Record<string, string | string[]> = {};
+    FORWARDED_HEADERS.forEach((name) => {
+      const value = upstream.headers[name];
+      if (value !== undefined) headers[name] = value;
+    });
+
+    res.writeHead(upstream.statusCode || 502, headers);
+    upstream.pipe(res);
+    // Stop the upstream transfer when the browser aborts
+    res.on('close', () => upstream.destroy());
+  } catch (error) {
+    const status = error instanceof UpstreamError ? error.status : 502;
+    sendText(res, status, (error as Error).message);
+  }
+};
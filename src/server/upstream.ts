@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { TransferIntegrityError, UploadReceipt } from '../lib/integrity';
+
+// Outgoing requests of the local server, streamed with Node's http/https
+// modules so files of any size pass through without being buffered
+
+const MAX_REDIRECTS = 5;
+
+export class UpstreamError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const clientFor = (url: string) => (url.startsWith('https:') ? https : http);
+
+// Open a GET/HEAD request, following redirects. `isAllowed` is checked for
+// every redirect target.
+export const openUpstream = (
+  url: string,
+  method: string,
+  range: string | undefined,
+  isAllowed: (url: string) => boolean = () => true,
+  redirects = 0
+): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const request = clientFor(url).request(
+      url,
+      { method, headers: range ? { Range: range } : {} },
+      (upstream) => {
+        const status = upstream.statusCode || 502;
+        const location = upstream.headers.location;
+        if (status < 300 || status >= 400 || !location) {
+          resolve(upstream);
+          return;
+        }
+
+        upstream.resume();
+        const next = new URL(location, url).toString();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new UpstreamError(502, 'Too many redirects'));
+        } else if (!isAllowed(next)) {
+          reject(new UpstreamError(403, `Redirect to ${next} is not allowed`));
+        } else {
+          openUpstream(next, method, range, isAllowed, redirects + 1).then(
+            resolve,
+            reject
+          );
+        }
+      }
+    );
+    request.on('error', (error) =>
+      reject(
+        new UpstreamError(502, `Upstream request failed: ${error.message}`)
+      )
+    );
+    request.end();
+  });
+
+// Size of the object stored at a signed upload URL, or null if the storage
+// does not answer a HEAD request for it
+const fetchStoredSize = async (signedUrl: string): Promise<number | null> => {
+  try {
+    const response = await openUpstream(signedUrl, 'HEAD', undefined);
+    response.resume();
+    const size = parseInt(response.headers['content-length'] || '', 10);
+    return response.statusCode === 200 && !Number.isNaN(size) ? size : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Pipe a download into a PUT on a signed upload URL. Storage needs the
+// length up front, taken from the download response or `size`. A download
+// whose length differs from `size`, or that ends short of it, aborts the
+// upload. The receipt carries the size of the stored object, read back
+// after the upload.
+export const streamToSignedUrl = async (
+  sourceUrl: string,
+  size: number,
+  contentType: string,
+  signedUrl: string,
+  onProgress: (loaded: number, total: number) => void,
+  hashContent = false
+): Promise<UploadReceipt> => {
+  const source = await openUpstream(sourceUrl, 'GET', undefined);
+  const sourceStatus = source.statusCode || 502;
+  if (sourceStatus !== 200) {
+    source.resume();
+    throw new UpstreamError(
+      sourceStatus,
+      `Download failed with status ${sourceStatus}`
+    );
+  }
+  const total = parseInt(source.headers['content-length'] || '', 10) || size;
+  if (size > 0 && total !== size) {
+    source.destroy();
+    throw new TransferIntegrityError(
+      `Download size mismatch: ${total} of ${size} bytes`
+    );
+  }
+  const hash = hashContent ? createHash('md5') : null;
+  let loaded = 0;
+
+  const etag = await new Promise<string | null>((resolve, reject) => {
+    const upload = clientFor(signedUrl).request(
+      signedUrl,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': contentType, 'Content-Length': total },
+      },
+      (response) => {
+        let body = '';
+        response.on('data', (chunk) => (body += chunk));
+        response.on('end', () => {
+          const status = response.statusCode || 502;
+          if (status >= 200 && status < 300) {
+            resolve(response.headers.etag || null);
+          } else {
+            reject(
+              new UpstreamError(
+                status,
+                `Upload failed with status ${status}${body ? `: ${body}` : ''}`
+              )
+            );
+          }
+        });
+      }
+    );
+    upload.on('error', (error) => {
+      source.destroy();
+      reject(new UpstreamError(502, `Upload failed: ${error.message}`));
+    });
+    source.on('error', (error) => {
+      upload.destroy();
+      reject(new UpstreamError(502, `Download failed: ${error.message}`));
+    });
+
+    source.on('data', (chunk: Buffer) => {
+      loaded += chunk.length;
+      hash?.update(chunk);
+      onProgress(loaded, total);
+    });
+    source.on('end', () => {
+      if (loaded === total) return;
+      upload.destroy();
+      reject(
+        new TransferIntegrityError(
+          `Download size mismatch: ${loaded} of ${total} bytes`
+        )
+      );
+    });
+    source.pipe(upload);
+  });
+
+  return {
+    etag,
+    md5: hash ? hash.digest('hex') : null,
+    storedSize: await fetchStoredSize(signedUrl),
+  };
+};